@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Check, Layers } from "lucide-react";
+import type { TileSourceSummary } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BUILTIN_BASEMAPS,
+  CUSTOM_BASEMAP_TYPES,
+  basemapLabel,
+  type BasemapSelection,
+  type CustomBasemap,
+  type CustomBasemapType,
+} from "@/lib/basemaps";
+
+const URL_PLACEHOLDERS: Record<CustomBasemapType, string> = {
+  xyz: "https://example.com/tiles/{z}/{x}/{y}.png",
+  wms: "https://example.com/geoserver/wms",
+  wmts: "https://example.com/wmts or …/{TileMatrix}/{TileRow}/{TileCol}.png",
+};
+
+interface BasemapOptionProps {
+  label: string;
+  detail?: string;
+  selected: boolean;
+  onSelect: () => void;
+  testId: string;
+}
+
+function BasemapOption({ label, detail, selected, onSelect, testId }: BasemapOptionProps) {
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm hover-elevate ${selected ? "bg-accent" : ""}`}
+      data-testid={testId}
+    >
+      <Check className={`h-4 w-4 flex-shrink-0 ${selected ? "" : "invisible"}`} />
+      <span className="truncate">{label}</span>
+      {detail && <span className="ml-auto text-xs text-muted-foreground flex-shrink-0">{detail}</span>}
+    </button>
+  );
+}
+
+interface BasemapSwitcherProps {
+  basemap: BasemapSelection;
+  onBasemapChange: (basemap: BasemapSelection) => void;
+  // Archives served from the server's TILES_DIR
+  localSources: TileSourceSummary[];
+}
+
+/** Pick the tiles drawn under the data. */
+export function BasemapSwitcher({ basemap, onBasemapChange, localSources }: BasemapSwitcherProps) {
+  const [custom, setCustom] = useState<CustomBasemap>(
+    basemap.kind === "custom" ? basemap.basemap : { type: "xyz", url: "" }
+  );
+
+  const needsLayers = custom.type !== "xyz";
+  const canApply = custom.url.trim() !== "" && (!needsLayers || !!custom.layers?.trim());
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" data-testid="button-basemap">
+          <Layers className="h-4 w-4 mr-1" />
+          {basemapLabel(basemap)}
+        </Button>
+      </PopoverTrigger>
+      {/* Above the map's panes, which stack up to z-index 1000 */}
+      <PopoverContent className="z-[1100] w-80 space-y-4" data-testid="popover-basemap">
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-foreground mb-1">Basemap</h4>
+          {Object.entries(BUILTIN_BASEMAPS).map(([id, { label }]) => (
+            <BasemapOption
+              key={id}
+              label={label}
+              selected={basemap.kind === "builtin" && basemap.id === id}
+              onSelect={() => onBasemapChange({ kind: "builtin", id })}
+              testId={`button-basemap-${id}`}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-foreground mb-1">Local Tiles</h4>
+          {localSources.map(source => (
+            <BasemapOption
+              key={source.id}
+              label={source.name}
+              detail={`z${source.minZoom}-${source.maxZoom}`}
+              selected={basemap.kind === "local" && basemap.source.id === source.id}
+              onSelect={() => onBasemapChange({ kind: "local", source })}
+              testId={`button-basemap-local-${source.id}`}
+            />
+          ))}
+          {localSources.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Put raster .mbtiles or .pmtiles files in the server's TILES_DIR to use them offline
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">Custom Source</h4>
+          <Select
+            value={custom.type}
+            onValueChange={(type: CustomBasemapType) => setCustom({ ...custom, type })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[1100]">
+              {(Object.keys(CUSTOM_BASEMAP_TYPES) as CustomBasemapType[]).map(type => (
+                <SelectItem key={type} value={type}>
+                  {CUSTOM_BASEMAP_TYPES[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={custom.url}
+            onChange={(e) => setCustom({ ...custom, url: e.target.value })}
+            placeholder={URL_PLACEHOLDERS[custom.type]}
+            data-testid="input-basemap-url"
+          />
+          {needsLayers && (
+            <Input
+              value={custom.layers ?? ""}
+              onChange={(e) => setCustom({ ...custom, layers: e.target.value })}
+              placeholder={custom.type === "wms" ? "Layers (comma separated)" : "Layer"}
+              data-testid="input-basemap-layers"
+            />
+          )}
+          {custom.type === "wmts" && (
+            <Input
+              value={custom.tileMatrixSet ?? ""}
+              onChange={(e) => setCustom({ ...custom, tileMatrixSet: e.target.value })}
+              placeholder="Tile matrix set (e.g. GoogleMapsCompatible)"
+              data-testid="input-basemap-matrix-set"
+            />
+          )}
+          <Input
+            value={custom.attribution ?? ""}
+            onChange={(e) => setCustom({ ...custom, attribution: e.target.value })}
+            placeholder="Attribution (optional)"
+            data-testid="input-basemap-attribution"
+          />
+          {custom.type === "wmts" && (
+            <p className="text-xs text-muted-foreground">
+              The tile matrix set must be Web Mercator with one matrix per zoom level
+            </p>
+          )}
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={!canApply}
+            onClick={() => onBasemapChange({ kind: "custom", basemap: { ...custom, url: custom.url.trim() } })}
+            data-testid="button-basemap-apply"
+          >
+            Use Custom Source
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,285 @@
+import { useEffect, useMemo, useState } from "react";
+import { hasCoordinateColumns, sampleCoordinates, type DetectedColumns } from "@shared/csv-parsing";
+import {
+  COORDINATE_FORMATS,
+  detectCoordinateFormat,
+  type CoordinateFormat,
+} from "@shared/coordinate-formats";
+import { createTransform, describeCRS, guessCRS, WGS84 } from "@shared/crs";
+import {
+  CRSPicker,
+  selectionFromCRS,
+  selectionFromGuess,
+  selectionToCRS,
+  type CRSSelection,
+} from "@/components/crs-picker";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Select items can't have an empty value, so "no group column" uses a sentinel
+const NO_COLUMN = "__none__";
+
+// Coordinates in a longitude/latitude column pair, or in one combined column
+const SEPARATE_COLUMNS = "separate";
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  columns: string[];
+  preview: Record<string, any>[];
+  detectedColumns: DetectedColumns;
+  initialMapping: DetectedColumns;
+  // Remembered coordinate system - guessed from the preview values when missing
+  initialCrs?: string;
+  // Recently used systems, preferred when guessing
+  recentCrs?: string[];
+  onConfirm: (mapping: DetectedColumns, crs: string) => void;
+  onCancel: () => void;
+}
+
+type ColumnRole = "longitude" | "latitude" | "coordinates" | "group";
+
+const SEPARATE_ROLES: { key: ColumnRole; label: string; required: boolean }[] = [
+  { key: "longitude", label: "Longitude", required: true },
+  { key: "latitude", label: "Latitude", required: true },
+  { key: "group", label: "Group", required: false },
+];
+
+const COMBINED_ROLES: { key: ColumnRole; label: string; required: boolean }[] = [
+  { key: "coordinates", label: "Coordinates", required: true },
+  { key: "group", label: "Group", required: false },
+];
+
+export function ColumnMappingDialog({
+  open,
+  columns,
+  preview,
+  detectedColumns,
+  initialMapping,
+  initialCrs,
+  recentCrs,
+  onConfirm,
+  onCancel,
+}: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = useState<DetectedColumns>(initialMapping);
+  const [crsSelection, setCrsSelection] = useState<CRSSelection>(() => selectionFromCRS(initialCrs ?? WGS84));
+  const [crsTouched, setCrsTouched] = useState(false);
+
+  const guessFor = (columns: DetectedColumns) =>
+    selectionFromGuess(guessCRS(sampleCoordinates(preview, columns), recentCrs));
+
+  // Start from the suggested mapping each time a new file is shown
+  useEffect(() => {
+    if (open) {
+      setMapping(initialMapping);
+      setCrsSelection(initialCrs ? selectionFromCRS(initialCrs) : guessFor(initialMapping));
+      setCrsTouched(!!initialCrs);
+    }
+  }, [open, initialMapping, initialCrs]);
+
+  const updateMapping = (next: DetectedColumns) => {
+    setMapping(next);
+    // Guess again from the new coordinate columns until the user picks a CRS
+    if (!crsTouched) {
+      setCrsSelection(guessFor(next));
+    }
+  };
+
+  const handleRoleChange = (role: ColumnRole, column: string | null) => {
+    if (role === "group") {
+      setMapping(current => ({ ...current, group: column }));
+    } else {
+      updateMapping({ ...mapping, [role]: column });
+    }
+  };
+
+  const handleLayoutChange = (layout: string) => {
+    if (layout === SEPARATE_COLUMNS) {
+      updateMapping({ ...mapping, coordinates: null, coordinateFormat: undefined });
+      return;
+    }
+    // Keep the chosen column if it fits the format, else find one that does
+    const format = layout as CoordinateFormat;
+    const fits = (column: string) =>
+      detectCoordinateFormat(preview.map(row => row[column]), column) === format;
+    const column = mapping.coordinates && fits(mapping.coordinates)
+      ? mapping.coordinates
+      : columns.find(fits) ?? mapping.coordinates ?? null;
+    updateMapping({ ...mapping, coordinates: column, coordinateFormat: format });
+  };
+
+  const combined = !!mapping.coordinateFormat;
+  const roles = combined ? COMBINED_ROLES : SEPARATE_ROLES;
+
+  // Only separate columns and WKT can hold projected x/y; the other combined
+  // formats are always lon/lat
+  const showCrs = !combined || mapping.coordinateFormat === "wkt";
+  const crs = showCrs ? selectionToCRS(crsSelection) : WGS84;
+
+  // Reproject the first preview row so the user can sanity-check the CRS
+  const firstPoint = useMemo(() => {
+    const [sample] = sampleCoordinates(preview, mapping);
+    if (!sample || !crs) return null;
+    try {
+      const transform = createTransform(crs);
+      return transform ? transform(...sample) : sample;
+    } catch {
+      return null;
+    }
+  }, [preview, mapping, crs]);
+
+  const roleOf = (column: string) => roles.find(role => mapping[role.key] === column);
+
+  const columnsValid = hasCoordinateColumns(mapping);
+  const isValid = columnsValid && crs !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-column-mapping">
+        <DialogHeader>
+          <DialogTitle>Map Columns</DialogTitle>
+          <DialogDescription>
+            Check which columns hold the coordinates and the group before the whole file is loaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-foreground">Coordinates In</label>
+          <Select value={mapping.coordinateFormat ?? SEPARATE_COLUMNS} onValueChange={handleLayoutChange}>
+            <SelectTrigger className="w-full" data-testid="select-coordinate-layout">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SEPARATE_COLUMNS}>Separate longitude and latitude columns</SelectItem>
+              {COORDINATE_FORMATS.map(format => (
+                <SelectItem key={format.value} value={format.value}>
+                  One column: {format.label} (e.g. {format.example})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Decimal degrees, degrees-minutes-seconds (40°26'46"N) and hemisphere letters (W 73.98) are all read.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {roles.map(role => (
+            <div key={role.key} className="space-y-1">
+              <label className="text-xs font-medium text-foreground">
+                {role.label}{role.required ? " *" : ""}
+              </label>
+              <Select
+                value={mapping[role.key] ?? NO_COLUMN}
+                onValueChange={(value) => handleRoleChange(role.key, value === NO_COLUMN ? null : value)}
+              >
+                <SelectTrigger className="w-full" data-testid={`select-mapping-${role.key}`}>
+                  <SelectValue placeholder="Select a column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {!role.required && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+                  {columns.map(column => (
+                    <SelectItem key={column} value={column}>
+                      {column}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {detectedColumns[role.key]
+                  ? `Detected: ${detectedColumns[role.key]}`
+                  : "Not detected"}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {showCrs && (
+          <div className="space-y-1">
+            <CRSPicker
+              value={crsSelection}
+              onChange={(selection) => {
+                setCrsSelection(selection);
+                setCrsTouched(true);
+              }}
+            />
+            <p className="text-xs text-muted-foreground" data-testid="text-crs-preview">
+              {crs && firstPoint
+                ? `${describeCRS(crs)} - first row at lon ${firstPoint[0].toFixed(5)}, lat ${firstPoint[1].toFixed(5)}`
+                : crsSelection.mode === "utm"
+                  ? "Values look like UTM - pick the zone the data was surveyed in."
+                  : "Choose the coordinate system of the longitude / x and latitude / y columns."}
+            </p>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-64 rounded-md border border-border">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-card border-b border-border">
+              <tr>
+                {columns.map(column => {
+                  const role = roleOf(column);
+                  return (
+                    <th
+                      key={column}
+                      className={`px-3 py-2 text-left font-medium whitespace-nowrap ${role ? "text-primary" : "text-muted-foreground"}`}
+                    >
+                      {column}
+                      {role && <span className="ml-1 rounded bg-primary/10 px-1">{role.label}</span>}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {preview.map((row, index) => (
+                <tr key={index}>
+                  {columns.map(column => (
+                    <td
+                      key={column}
+                      className={`px-3 py-1.5 whitespace-nowrap ${roleOf(column) ? "bg-primary/5 text-foreground" : "text-muted-foreground"}`}
+                    >
+                      {String(row[column] ?? "")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+
+        {!columnsValid && (
+          <p className="text-xs text-destructive">
+            {combined
+              ? "Choose the column holding the coordinates."
+              : "Choose two different columns for longitude and latitude."}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel} data-testid="button-mapping-cancel">
+            Cancel
+          </Button>
+          <Button onClick={() => crs && onConfirm(mapping, crs)} disabled={!isValid} data-testid="button-mapping-confirm">
+            Load Points
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,12 @@
 import React from "react";
 import { useState, useEffect, useRef } from "react";
-import { CSVPoint, Polygon } from "@shared/schema";
+import { Polygon, type ClusterMethod, type OutlierMethod, type PolygonMethod } from "@shared/schema";
+import { DEFAULT_RADIUS_METERS, RADIUS_METHODS } from "@shared/polygon-generation";
+import { DEFAULT_OUTLIER_THRESHOLDS, OUTLIER_NEIGHBOURS } from "@shared/outliers";
+import { DEFAULT_CLUSTER_OPTIONS, NOISE, withClusterColumn } from "@shared/clustering";
+import { clonePointTable, findColumn, pointTableTransferables, type PointTable } from "@shared/point-table";
+import { forShapefile, polygonsToFeatureCollection } from "@shared/geojson";
+import { describeCRS, isGeographic, reprojectFeatureCollection, resolveCRS } from "@shared/crs";
 import shpwrite from "@mapbox/shp-write";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
@@ -12,36 +18,103 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Download, Shapes, AlertCircle, Wind, CloudRain, Sparkles, ChevronDown, ChevronUp } from "lucide-react";
+import { Download, Shapes, AlertCircle, Network, Wind, CloudRain, Sparkles, ChevronDown, ChevronUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { motion, AnimatePresence } from "framer-motion";
 
+// Shown under the method select
+const METHOD_DESCRIPTIONS: Record<PolygonMethod, string> = {
+  concave: "Basic concave hull around points",
+  simplified: "Concave hull + Douglas-Peucker simplification (removes collinear points)",
+  convex: "Smallest convex polygon containing every point",
+  alpha: "Delaunay triangles no wider than the radius - follows gaps and inlets in the points",
+  buffer: "A circle of the radius around every point, merged into one area",
+  hexbin: "Hexagonal cells of the radius that contain at least one point",
+};
+
+// Shown under the outlier select, with the threshold slider's range
+const OUTLIER_METHODS: Record<OutlierMethod, { description: string; threshold: string; min: number; max: number }> = {
+  none: { description: "Every point is used", threshold: "", min: 0, max: 0 },
+  stddev: {
+    description: "Points further from the group's centre than the mean distance plus the threshold in standard deviations",
+    threshold: "Standard deviations",
+    min: 1,
+    max: 5,
+  },
+  iqr: {
+    description: "Points further from the group's centre than the upper quartile plus the threshold times the interquartile range",
+    threshold: "IQR multiplier",
+    min: 0.5,
+    max: 5,
+  },
+  lof: {
+    description: `Points in much sparser surroundings than their ${OUTLIER_NEIGHBOURS} nearest neighbours - finds strays between clusters too`,
+    threshold: "Local outlier factor",
+    min: 1.1,
+    max: 5,
+  },
+  knn: {
+    description: `Points whose ${OUTLIER_NEIGHBOURS}th nearest neighbour is unusually far away, by standard deviations above the mean`,
+    threshold: "Standard deviations",
+    min: 1,
+    max: 5,
+  },
+};
+
+const CLUSTER_DESCRIPTIONS: Record<ClusterMethod, string> = {
+  dbscan: "Points with enough neighbours within the distance form clusters; the rest are noise",
+  hdbscan: "Finds clusters of differing densities without a distance - only the minimum cluster size",
+};
+
 interface ControlPanelProps {
-  points: CSVPoint[];
+  points: PointTable;
+  // A file is still streaming in, so points is incomplete
+  loading?: boolean;
   concavity: number;
   onConcavityChange: (value: number) => void;
-  onPolygonsGenerated: (polygons: Polygon[]) => void;
+  // Outliers are the row indices of the points left out of the polygons
+  onPolygonsGenerated: (polygons: Polygon[], outliers: Uint32Array) => void;
+  // The points with a cluster column added, to group by
+  onPointsClustered: (points: PointTable) => void;
+  // No group column was found on import, so suggest clustering
+  groupColumnMissing?: boolean;
   polygons: Polygon[];
 
   onResetState?: () => void;
   padding: number;
   onPaddingChange: (value: number) => void;
+  // Column points are grouped by, for polygons and on the map
+  groupField: string;
+  onGroupFieldChange: (field: string) => void;
+  // Coordinate system the points were imported from - exports can go back to it
+  sourceCrs?: string | null;
 }
 
 export function ControlPanel({
   points,
+  loading = false,
   concavity,
   onConcavityChange,
   onPolygonsGenerated,
+  onPointsClustered,
+  groupColumnMissing = false,
   polygons,
 
   onResetState,
   padding,
   onPaddingChange,
-  
+  groupField,
+  onGroupFieldChange,
+  sourceCrs,
 }: ControlPanelProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isClustering, setIsClustering] = useState(false);
+  const [clusterMethod, setClusterMethod] = useState<ClusterMethod>(DEFAULT_CLUSTER_OPTIONS.method);
+  const [epsilon, setEpsilon] = useState(DEFAULT_CLUSTER_OPTIONS.epsilon);
+  const [minPoints, setMinPoints] = useState(DEFAULT_CLUSTER_OPTIONS.minPoints);
+  const [clusterSummary, setClusterSummary] = useState<{ clusters: number; noise: number; field: string } | null>(null);
   const [lastGeneratedCount, setLastGeneratedCount] = useState(0);
+  const [lastOutlierCount, setLastOutlierCount] = useState(0);
   const [progressMessage, setProgressMessage] = useState("");
   const [groupsProcessed, setGroupsProcessed] = useState(0);
   const [totalGroups, setTotalGroups] = useState(0);
@@ -56,6 +129,10 @@ export function ControlPanel({
     }
   }, [points.length, lastGeneratedCount, onResetState]);
 
+  useEffect(() => {
+    if (points.length === 0) setClusterSummary(null);
+  }, [points.length]);
+
   // Cleanup worker on unmount
   useEffect(() => {
     return () => {
@@ -66,27 +143,76 @@ export function ControlPanel({
     };
   }, []);
 
-  const [groupField, setGroupField] = useState<string>('');
-
-  // Extract available columns from the first point (if available)
+  // Attribute columns of the loaded points (id and coordinates are stored apart)
   const availableColumns = React.useMemo(() => {
     if (points.length === 0) return [];
+    return points.columns.map(column => column.name);
+  }, [points]);
+
+  const handleFindClusters = () => {
+    setIsClustering(true);
 
-    const firstPoint = points[0];
-    // Get all columns except internal ones (id, longitude, latitude)
-    const columns = Object.keys(firstPoint).filter(
-      key => !['id', 'longitude', 'latitude'].includes(key)
+    if (polygonWorkerRef.current) {
+      polygonWorkerRef.current.terminate();
+    }
+
+    // Clustering runs in the polygon worker too
+    const worker = new Worker(
+      new URL('../workers/polygon.worker.ts', import.meta.url),
+      { type: 'module' }
     );
+    polygonWorkerRef.current = worker;
 
-    return columns;
-  }, [points]);
+    const finish = () => {
+      setIsClustering(false);
+      worker.terminate();
+      polygonWorkerRef.current = null;
+    };
 
-  // Auto-set groupField to first available column when points change
-  React.useEffect(() => {
-    if (availableColumns.length > 0 && !groupField) {
-      setGroupField(availableColumns[0]);
-    }
-  }, [availableColumns, groupField]);
+    worker.onmessage = (event) => {
+      if (event.data.type === 'clustered') {
+        const labels: Int32Array = event.data.labels;
+        const clusters = labels.reduce((max, label) => Math.max(max, label + 1), 0);
+        const noise = labels.reduce((count, label) => count + (label === NOISE ? 1 : 0), 0);
+
+        const { table, field } = withClusterColumn(points, labels);
+        onPointsClustered(table);
+        onGroupFieldChange(field);
+        setClusterSummary({ clusters, noise, field });
+        toast({
+          title: "Clustering complete",
+          description: `Found ${clusters} cluster${clusters !== 1 ? 's' : ''} and ${noise} noise point${noise !== 1 ? 's' : ''}`,
+        });
+      } else if (event.data.type === 'error') {
+        toast({
+          title: "Error",
+          description: event.data.message || "Failed to cluster points",
+          variant: "destructive",
+        });
+      }
+      finish();
+    };
+
+    worker.onerror = (error) => {
+      toast({
+        title: "Worker Error",
+        description: error.message || "Failed to cluster points",
+        variant: "destructive",
+      });
+      finish();
+    };
+
+    const longitude = points.longitude.slice(0, points.length);
+    const latitude = points.latitude.slice(0, points.length);
+    worker.postMessage({
+      type: 'cluster',
+      longitude,
+      latitude,
+      method: clusterMethod,
+      epsilon,
+      minPoints,
+    }, [longitude.buffer, latitude.buffer]);
+  };
 
   const handleGeneratePolygons = () => {
     if (points.length === 0) {
@@ -124,16 +250,18 @@ export function ControlPanel({
         setTotalGroups(total);
         setProgressMessage(`Processing group: ${currentGroup} (${processed}/${total})`);
       } else if (type === 'complete') {
-        const { polygons: generatedPolygons } = event.data;
+        const { polygons: generatedPolygons, outliers } = event.data;
 
-        onPolygonsGenerated(generatedPolygons);
+        onPolygonsGenerated(generatedPolygons, outliers);
         setLastGeneratedCount(generatedPolygons.length);
+        setLastOutlierCount(outliers.length);
         setIsGenerating(false);
         setProgressMessage("");
 
         toast({
           title: "Success",
-          description: `Generated ${generatedPolygons.length} polygon${generatedPolygons.length !== 1 ? 's' : ''}`,
+          description: `Generated ${generatedPolygons.length} polygon${generatedPolygons.length !== 1 ? 's' : ''}` +
+            (outliers.length > 0 ? `, leaving out ${outliers.length} outlier${outliers.length !== 1 ? 's' : ''}` : ''),
         });
 
         // Cleanup
@@ -172,18 +300,50 @@ export function ControlPanel({
       polygonWorkerRef.current = null;
     };
 
-    // Start processing
+    // Start processing - the worker gets its own copy of the table's buffers,
+    // transferred rather than cloned point by point
+    const table = clonePointTable(points);
     worker.postMessage({
       type: 'generate',
-      points,
+      table,
       concavity,
       groupField,
       method,
       padding,
-    });
+      radius,
+      outlierMethod,
+      outlierThreshold,
+      // Noise from the clustering gets no polygon of its own
+      ungroupedAsOutliers: findColumn(points, groupField)?.clustered === true,
+      splitDistance: splitDistance > 0 && !usesRadius ? splitDistance : undefined,
+      holeSpacing: holeSpacing > 0 && !usesRadius ? holeSpacing : undefined,
+    }, pointTableTransferables(table));
+  };
+
+  const [method, setMethod] = useState<PolygonMethod>('concave');
+  const [radius, setRadius] = useState(DEFAULT_RADIUS_METERS);
+  const usesRadius = RADIUS_METHODS.includes(method);
+  // 0 keeps each group in one piece
+  const [splitDistance, setSplitDistance] = useState(0);
+  // 0 leaves hulls solid
+  const [holeSpacing, setHoleSpacing] = useState(0);
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>('none');
+  const [outlierThreshold, setOutlierThreshold] = useState(DEFAULT_OUTLIER_THRESHOLDS.none);
+
+  const handleOutlierMethodChange = (value: OutlierMethod) => {
+    setOutlierMethod(value);
+    setOutlierThreshold(DEFAULT_OUTLIER_THRESHOLDS[value]);
   };
+  const [exportCrs, setExportCrs] = useState<'wgs84' | 'source'>('wgs84');
 
-  const [method, setMethod] = useState<'concave' | 'simplified'>('concave');
+  const canExportInSource = !!sourceCrs && !isGeographic(sourceCrs);
+  const exportInSource = canExportInSource && exportCrs === 'source';
+
+  // Polygons are generated in WGS84; reproject them if exporting in the source CRS
+  const exportFeatureCollection = () => {
+    const geojson = polygonsToFeatureCollection(polygons);
+    return exportInSource ? reprojectFeatureCollection(geojson, sourceCrs!) : geojson;
+  };
 
   const handleExportShapefile = () => {
     if (polygons.length === 0) {
@@ -197,50 +357,18 @@ export function ControlPanel({
 
     try {
       // Convert polygons to GeoJSON features with properly closed rings
-      const features = polygons
-        .filter(polygon => {
-          // Skip invalid polygons with less than 3 coordinates
-          if (polygon.coordinates.length < 3) {
-            console.warn(`Skipping polygon ${polygon.id} with less than 3 coordinates`);
-            return false;
-          }
-          return true;
-        })
-        .map(polygon => {
-          // Ensure polygon is closed (first and last coordinates must be equal)
-          const coords = [...polygon.coordinates];
-          const firstCoord = coords[0];
-          const lastCoord = coords[coords.length - 1];
-
-          // Close the ring if not already closed
-          if (firstCoord[0] !== lastCoord[0] || firstCoord[1] !== lastCoord[1]) {
-            coords.push([...firstCoord]);
-          }
-
-          return {
-            type: "Feature" as const,
-            geometry: {
-              type: "Polygon" as const,
-              coordinates: [coords],
-            },
-            properties: {
-              // Export all properties from the polygon (includes all CSV attributes)
-              groupId: polygon.groupId,
-              groupField: polygon.groupField,
-              id: polygon.id,
-              ...(polygon.properties || {}),
-            },
-          };
-        });
+      const geojson = exportFeatureCollection();
 
-      if (features.length === 0) {
+      if (geojson.features.length === 0) {
         throw new Error("No valid polygons to export");
       }
 
-      const geojson = {
-        type: "FeatureCollection" as const,
-        features,
-      };
+      // The .prj has to describe the exported coordinates - shp-write
+      // defaults to WGS84
+      const prj = exportInSource ? resolveCRS(sourceCrs)?.wkt : undefined;
+      if (exportInSource && !prj) {
+        throw new Error("No .prj is available for a custom proj4 definition. Re-import with the EPSG code or WKT, or export GeoJSON.");
+      }
 
       // Download shapefile using shp-write
       const options = {
@@ -248,12 +376,13 @@ export function ControlPanel({
         types: {
           polygon: "polygons",
         },
+        prj,
         compression: "DEFLATE" as const,
         outputType: "blob" as const,
       };
 
-      console.log("Attempting shapefile export with", features.length, "features");
-      shpwrite.download(geojson, options);
+      console.log("Attempting shapefile export with", geojson.features.length, "features");
+      shpwrite.download(forShapefile(geojson), options);
 
       toast({
         title: "Export started",
@@ -281,37 +410,8 @@ export function ControlPanel({
 
     try {
       // Convert polygons to GeoJSON features
-      const features = polygons
-        .filter(polygon => polygon.coordinates.length >= 3)
-        .map(polygon => {
-          const coords = [...polygon.coordinates];
-          const firstCoord = coords[0];
-          const lastCoord = coords[coords.length - 1];
-
-          if (firstCoord[0] !== lastCoord[0] || firstCoord[1] !== lastCoord[1]) {
-            coords.push([...firstCoord]);
-          }
-
-          return {
-            type: "Feature" as const,
-            geometry: {
-              type: "Polygon" as const,
-              coordinates: [coords],
-            },
-            properties: {
-              // Export all properties from the polygon (includes all CSV attributes)
-              groupId: polygon.groupId,
-              groupField: polygon.groupField,
-              id: polygon.id,
-              ...(polygon.properties || {}),
-            },
-          };
-        });
-
-      const geojson = {
-        type: "FeatureCollection" as const,
-        features,
-      };
+      const geojson = exportFeatureCollection();
+      const { features } = geojson;
 
       // Create and download GeoJSON file
       const geojsonStr = JSON.stringify(geojson, null, 2);
@@ -350,13 +450,95 @@ export function ControlPanel({
           </p>
         </div>
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">
+            Spatial Clustering
+          </label>
+          {groupColumnMissing && points.length > 0 && (
+            <p className="text-xs text-foreground" data-testid="text-cluster-hint">
+              No group column was found in the file - cluster the points to group them by location
+            </p>
+          )}
+          <Select
+            value={clusterMethod}
+            onValueChange={(v: ClusterMethod) => setClusterMethod(v)}
+            disabled={points.length === 0}
+          >
+            <SelectTrigger className="w-full" data-testid="select-cluster-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="dbscan">DBSCAN</SelectItem>
+              <SelectItem value="hdbscan">HDBSCAN</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {CLUSTER_DESCRIPTIONS[clusterMethod]}
+          </p>
+        </div>
+
+        {clusterMethod === 'dbscan' && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">
+              Neighbourhood Distance: {epsilon.toLocaleString()} m
+            </label>
+            <Slider
+              value={[epsilon]}
+              onValueChange={(values) => setEpsilon(values[0])}
+              min={5}
+              max={2000}
+              step={5}
+              className="w-full"
+              disabled={points.length === 0}
+              data-testid="slider-epsilon"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">
+            Minimum Points: {minPoints}
+          </label>
+          <Slider
+            value={[minPoints]}
+            onValueChange={(values) => setMinPoints(values[0])}
+            min={2}
+            max={100}
+            step={1}
+            className="w-full"
+            disabled={points.length === 0}
+            data-testid="slider-min-points"
+          />
+          <p className="text-xs text-muted-foreground">
+            {clusterMethod === 'dbscan'
+              ? "Neighbours (itself included) a point needs within the distance to start or grow a cluster"
+              : "Smallest group of points that counts as a cluster"}
+          </p>
+          <Button
+            onClick={handleFindClusters}
+            disabled={points.length === 0 || isClustering || isGenerating || loading}
+            variant="outline"
+            className="w-full"
+            data-testid="button-find-clusters"
+          >
+            <Network className="w-4 h-4 mr-2" />
+            {isClustering ? "Clustering..." : "Find Clusters"}
+          </Button>
+          {clusterSummary && (
+            <p className="text-xs text-muted-foreground" data-testid="text-cluster-summary">
+              {clusterSummary.clusters} cluster{clusterSummary.clusters !== 1 ? 's' : ''} in the "{clusterSummary.field}" column,{' '}
+              {clusterSummary.noise} noise point{clusterSummary.noise !== 1 ? 's' : ''} left out of the polygons
+            </p>
+          )}
+        </div>
+
         <div className="space-y-2">
           <label className="text-sm font-medium text-foreground">
             Group By Column
           </label>
           <Select
             value={groupField}
-            onValueChange={setGroupField}
+            onValueChange={onGroupFieldChange}
             disabled={points.length === 0}
           >
             <SelectTrigger className="w-full">
@@ -371,7 +553,7 @@ export function ControlPanel({
             </SelectContent>
           </Select>
           <p className="text-xs text-muted-foreground">
-            Select which column to use for grouping points into polygons
+            Select which column to use for grouping points into polygons and filtering the map
           </p>
         </div>
 
@@ -381,7 +563,7 @@ export function ControlPanel({
           </label>
           <Select
             value={method}
-            onValueChange={(v: 'concave' | 'simplified') => setMethod(v)}
+            onValueChange={(v: PolygonMethod) => setMethod(v)}
             disabled={points.length === 0}
           >
             <SelectTrigger className="w-full">
@@ -390,32 +572,59 @@ export function ControlPanel({
             <SelectContent>
               <SelectItem value="concave">Concave Hull (Basic)</SelectItem>
               <SelectItem value="simplified">Simplified (Remove Extra Vertices)</SelectItem>
+              <SelectItem value="convex">Convex Hull</SelectItem>
+              <SelectItem value="alpha">Alpha Shape</SelectItem>
+              <SelectItem value="buffer">Buffered Points (Union)</SelectItem>
+              <SelectItem value="hexbin">Hexbin Footprint</SelectItem>
             </SelectContent>
           </Select>
           <p className="text-xs text-muted-foreground">
-            {method === 'concave'
-              ? "Basic concave hull around points"
-              : "Concave hull + Douglas-Peucker simplification (removes collinear points)"}
+            {METHOD_DESCRIPTIONS[method]}
           </p>
         </div>
 
-        <div className="space-y-2">
-          <label className="text-sm font-medium text-foreground">
-            Concavity: {concavity.toFixed(2)}
-          </label>
-          <Slider
-            value={[concavity]}
-            onValueChange={(values) => onConcavityChange(values[0])}
-            min={1}
-            max={3}
-            step={0.1}
-            className="w-full"
-            disabled={points.length === 0}
-          />
-          <p className="text-xs text-muted-foreground">
-            Lower values create tighter polygons, higher values create looser ones
-          </p>
-        </div>
+        {usesRadius && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">
+              {method === 'alpha' ? "Alpha Radius" : method === 'buffer' ? "Buffer Radius" : "Hexagon Size"}: {radius.toLocaleString()} m
+            </label>
+            <Slider
+              value={[radius]}
+              onValueChange={(values) => setRadius(values[0])}
+              min={10}
+              max={5000}
+              step={10}
+              className="w-full"
+              disabled={points.length === 0}
+              data-testid="slider-radius"
+            />
+            <p className="text-xs text-muted-foreground">
+              {method === 'alpha'
+                ? "Must be larger than the usual gap between neighbouring points, or the shape breaks up"
+                : "Distance in metres, measured on the ground"}
+            </p>
+          </div>
+        )}
+
+        {(method === 'concave' || method === 'simplified') && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">
+              Concavity: {concavity.toFixed(2)}
+            </label>
+            <Slider
+              value={[concavity]}
+              onValueChange={(values) => onConcavityChange(values[0])}
+              min={1}
+              max={3}
+              step={0.1}
+              className="w-full"
+              disabled={points.length === 0}
+            />
+            <p className="text-xs text-muted-foreground">
+              Lower values create tighter polygons, higher values create looser ones
+            </p>
+          </div>
+        )}
 
         {method === 'simplified' && (
           <div className="space-y-2">
@@ -437,10 +646,98 @@ export function ControlPanel({
           </div>
         )}
 
+        {!usesRadius && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">
+              Split Separate Areas: {splitDistance > 0 ? `${splitDistance.toLocaleString()} m` : "Off"}
+            </label>
+            <Slider
+              value={[splitDistance]}
+              onValueChange={(values) => setSplitDistance(values[0])}
+              min={0}
+              max={10000}
+              step={100}
+              className="w-full"
+              disabled={points.length === 0}
+              data-testid="slider-split-distance"
+            />
+            <p className="text-xs text-muted-foreground">
+              Points of a group further apart than this get separate polygons instead of one hull bridging the gap
+            </p>
+          </div>
+        )}
+
+        {!usesRadius && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">
+              Interior Holes: {holeSpacing > 0 ? `${holeSpacing}× point spacing` : "Off"}
+            </label>
+            <Slider
+              value={[holeSpacing]}
+              onValueChange={(values) => setHoleSpacing(values[0])}
+              min={0}
+              max={20}
+              step={1}
+              className="w-full"
+              disabled={points.length === 0}
+              data-testid="slider-hole-spacing"
+            />
+            <p className="text-xs text-muted-foreground">
+              Cuts holes where an empty area inside a polygon is this many times wider than the usual gap between neighbouring points. Gaps that random scatter leaves by chance are never cut
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">
+            Outlier Removal
+          </label>
+          <Select
+            value={outlierMethod}
+            onValueChange={handleOutlierMethodChange}
+            disabled={points.length === 0}
+          >
+            <SelectTrigger className="w-full" data-testid="select-outlier-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="stddev">Distance from Centre (Std Dev)</SelectItem>
+              <SelectItem value="iqr">Distance from Centre (IQR)</SelectItem>
+              <SelectItem value="lof">Local Density (LOF)</SelectItem>
+              <SelectItem value="knn">Nearest-Neighbour Distance</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {OUTLIER_METHODS[outlierMethod].description}
+          </p>
+        </div>
+
+        {outlierMethod !== 'none' && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">
+              {OUTLIER_METHODS[outlierMethod].threshold}: {outlierThreshold.toFixed(1)}
+            </label>
+            <Slider
+              value={[outlierThreshold]}
+              onValueChange={(values) => setOutlierThreshold(values[0])}
+              min={OUTLIER_METHODS[outlierMethod].min}
+              max={OUTLIER_METHODS[outlierMethod].max}
+              step={0.1}
+              className="w-full"
+              disabled={points.length === 0}
+              data-testid="slider-outlier-threshold"
+            />
+            <p className="text-xs text-muted-foreground">
+              Lower values leave out more points. Outliers are circled in red on the map
+            </p>
+          </div>
+        )}
+
         <div className="space-y-2">
           <Button
             onClick={handleGeneratePolygons}
-            disabled={points.length === 0 || isGenerating}
+            disabled={points.length === 0 || isGenerating || isClustering || loading}
             className="w-full"
             data-testid="button-generate-polygons"
           >
@@ -460,6 +757,7 @@ export function ControlPanel({
               <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
               <p>
                 Generated {lastGeneratedCount} polygon{lastGeneratedCount !== 1 ? 's' : ''} from {points.length} point{points.length !== 1 ? 's' : ''}
+                {lastOutlierCount > 0 && `, leaving out ${lastOutlierCount} outlier${lastOutlierCount !== 1 ? 's' : ''}`}
               </p>
             </div>
           )}
@@ -476,6 +774,29 @@ export function ControlPanel({
             </p>
           </div>
 
+          {canExportInSource && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">
+                Export Coordinates
+              </label>
+              <Select
+                value={exportCrs}
+                onValueChange={(v: 'wgs84' | 'source') => setExportCrs(v)}
+              >
+                <SelectTrigger className="w-full" data-testid="select-export-crs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="wgs84">WGS 84 (lon/lat)</SelectItem>
+                  <SelectItem value="source">Source: {describeCRS(sourceCrs)}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Points were reprojected from {describeCRS(sourceCrs)} on import
+              </p>
+            </div>
+          )}
+
           <Button
             onClick={handleExportShapefile}
             disabled={polygons.length === 0}
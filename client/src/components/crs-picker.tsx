@@ -0,0 +1,152 @@
+import {
+  NATIONAL_GRIDS,
+  UTM_ZONES,
+  WGS84,
+  parseUtmCode,
+  resolveCRS,
+  utmCode,
+  type CRSGuess,
+} from "@shared/crs";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// What the user has picked so far. UTM needs a zone that can't be guessed, so
+// a selection can be incomplete and resolve to no CRS yet.
+export interface CRSSelection {
+  mode: string; // "wgs84", "utm", "custom" or a national grid's EPSG code
+  utmZone: number | null;
+  utmSouth: boolean;
+  custom: string;
+}
+
+const EMPTY_SELECTION: CRSSelection = { mode: "wgs84", utmZone: null, utmSouth: false, custom: "" };
+
+export function selectionFromCRS(crs: string): CRSSelection {
+  if (crs === WGS84) return EMPTY_SELECTION;
+
+  const utm = parseUtmCode(crs);
+  if (utm) {
+    return { ...EMPTY_SELECTION, mode: "utm", utmZone: utm.zone, utmSouth: utm.south };
+  }
+  if (NATIONAL_GRIDS.some(grid => grid.code === crs)) {
+    return { ...EMPTY_SELECTION, mode: crs };
+  }
+  return { ...EMPTY_SELECTION, mode: "custom", custom: crs };
+}
+
+export function selectionFromGuess(guess: CRSGuess): CRSSelection {
+  if (guess.code) return selectionFromCRS(guess.code);
+  if (guess.utmHemisphere) {
+    return { ...EMPTY_SELECTION, mode: "utm", utmSouth: guess.utmHemisphere === "S" };
+  }
+  return { ...EMPTY_SELECTION, mode: "custom" };
+}
+
+/** The CRS string for a selection, or null while it is incomplete or invalid. */
+export function selectionToCRS(selection: CRSSelection): string | null {
+  switch (selection.mode) {
+    case "wgs84":
+      return WGS84;
+    case "utm":
+      return selection.utmZone ? utmCode(selection.utmZone, selection.utmSouth) : null;
+    case "custom":
+      return resolveCRS(selection.custom)?.code ?? null;
+    default:
+      return selection.mode;
+  }
+}
+
+interface CRSPickerProps {
+  value: CRSSelection;
+  onChange: (selection: CRSSelection) => void;
+}
+
+export function CRSPicker({ value, onChange }: CRSPickerProps) {
+  const update = (changes: Partial<CRSSelection>) => onChange({ ...value, ...changes });
+  const customInvalid = value.mode === "custom" && value.custom.trim() !== "" && !resolveCRS(value.custom);
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-foreground">Coordinate System</label>
+        <Select value={value.mode} onValueChange={(mode) => update({ mode })}>
+          <SelectTrigger className="w-full" data-testid="select-crs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="wgs84">WGS 84 (lon/lat)</SelectItem>
+            <SelectItem value="utm">UTM (WGS 84)</SelectItem>
+            {NATIONAL_GRIDS.map(grid => (
+              <SelectItem key={grid.code} value={grid.code}>
+                {grid.name}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">EPSG code, proj4 or WKT…</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.mode === "utm" && (
+        <>
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-foreground">Zone *</label>
+            <Select
+              value={value.utmZone ? String(value.utmZone) : undefined}
+              onValueChange={(zone) => update({ utmZone: Number(zone) })}
+            >
+              <SelectTrigger className="w-full" data-testid="select-utm-zone">
+                <SelectValue placeholder="Select a zone" />
+              </SelectTrigger>
+              <SelectContent>
+                {UTM_ZONES.map(zone => (
+                  <SelectItem key={zone} value={String(zone)}>
+                    Zone {zone} ({zone * 6 - 186}° to {zone * 6 - 180}°)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-foreground">Hemisphere</label>
+            <Select
+              value={value.utmSouth ? "S" : "N"}
+              onValueChange={(hemisphere) => update({ utmSouth: hemisphere === "S" })}
+            >
+              <SelectTrigger className="w-full" data-testid="select-utm-hemisphere">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="N">North</SelectItem>
+                <SelectItem value="S">South</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+
+      {value.mode === "custom" && (
+        <div className="col-span-2 space-y-1">
+          <label className="text-xs font-medium text-foreground">Definition *</label>
+          <Input
+            value={value.custom}
+            onChange={(e) => update({ custom: e.target.value })}
+            placeholder="EPSG:32643, +proj=… or PROJCS[…]"
+            className="h-9 text-xs"
+            data-testid="input-crs-custom"
+          />
+          {customInvalid && (
+            <p className="text-xs text-destructive">
+              Unknown code or unreadable definition. Paste a proj4 string or the WKT from a .prj file.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
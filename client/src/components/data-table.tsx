@@ -1,40 +1,72 @@
 import { useState, useMemo } from "react";
-import { CSVPoint } from "@shared/schema";
+import { pointAt, pointId, type PointTable } from "@shared/point-table";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
 import { Search } from "lucide-react";
 
+/** Points picked elsewhere (the inspector) for the table to show on their own. */
+export interface TableSelection {
+  label: string;
+  indices: number[];
+}
+
 interface DataTableProps {
-  points: CSVPoint[];
+  points: PointTable;
+  selection?: TableSelection | null;
+  onClearSelection?: () => void;
+  // A row was clicked - index into the point table
+  onRowClick?: (index: number) => void;
 }
 
-export function DataTable({ points }: DataTableProps) {
+const RENDER_LIMIT = 1000;
+
+export function DataTable({ points, selection = null, onClearSelection, onRowClick }: DataTableProps) {
   const [searchTerm, setSearchTerm] = useState("");
 
-  // Get all available columns from the first point (excluding internal ones)
+  // Coordinates first, then the attribute columns
   const columns = useMemo(() => {
     if (points.length === 0) return [];
-    const firstPoint = points[0];
-    return Object.keys(firstPoint).filter(key => !['id'].includes(key));
+    return ['longitude', 'latitude', ...points.columns.map(column => column.name)];
   }, [points]);
 
-  const filteredPoints = useMemo(() => {
-    if (!searchTerm) return points;
+  // Count every match but only keep the rows that will be rendered. Attribute
+  // values are dictionary-encoded, so each distinct value is tested once.
+  // A selection narrows the table to its points before the search applies
+  const rowCount = selection ? selection.indices.length : points.length;
+  const rowIndex = (row: number) => (selection ? selection.indices[row] : row);
+
+  const { matchCount, matchIndices } = useMemo(() => {
+    if (!searchTerm) {
+      const shown = Math.min(rowCount, RENDER_LIMIT);
+      return { matchCount: rowCount, matchIndices: Array.from({ length: shown }, (_, row) => rowIndex(row)) };
+    }
 
     const term = searchTerm.toLowerCase();
-    return points.filter(point =>
-      point.id.toLowerCase().includes(term) ||
-      point.latitude.toString().includes(term) ||
-      point.longitude.toString().includes(term) ||
-      // Search in all other columns
-      Object.keys(point).some(key =>
-        String(point[key] || '').toLowerCase().includes(term)
-      )
+    const matchingCodes = points.columns.map(column =>
+      column.values.map(value => String(value || '').toLowerCase().includes(term))
     );
-  }, [points, searchTerm]);
 
-  const RENDER_LIMIT = 1000;
-  const displayPoints = filteredPoints.slice(0, RENDER_LIMIT);
+    const indices: number[] = [];
+    let count = 0;
+    for (let row = 0; row < rowCount; row++) {
+      const i = rowIndex(row);
+      const matches =
+        pointId(points, i).includes(term) ||
+        points.latitude[i].toString().includes(term) ||
+        points.longitude[i].toString().includes(term) ||
+        // Search in all other columns
+        points.columns.some((column, c) => matchingCodes[c][column.codes[i]]);
+
+      if (matches) {
+        if (indices.length < RENDER_LIMIT) indices.push(i);
+        count++;
+      }
+    }
+    return { matchCount: count, matchIndices: indices };
+  }, [points, searchTerm, selection]);
+
+  const displayPoints = useMemo(() => matchIndices.map(i => pointAt(points, i)), [points, matchIndices]);
 
   return (
     <div className="flex flex-col h-full">
@@ -43,13 +75,24 @@ export function DataTable({ points }: DataTableProps) {
         <div>
           <h2 className="text-lg font-semibold text-foreground">Data Table</h2>
           <p className="text-sm text-muted-foreground" data-testid="text-data-count">
-            {filteredPoints.length > RENDER_LIMIT
-              ? `Showing first ${RENDER_LIMIT.toLocaleString()} of ${points.length.toLocaleString()} points`
-              : `${filteredPoints.length} of ${points.length} point${points.length !== 1 ? 's' : ''}`
+            {matchCount > RENDER_LIMIT
+              ? `Showing first ${RENDER_LIMIT.toLocaleString()} of ${rowCount.toLocaleString()} points`
+              : `${matchCount} of ${rowCount} point${rowCount !== 1 ? 's' : ''}`
             }
           </p>
         </div>
 
+        {selection && (
+          <div className="flex items-center justify-between gap-2 rounded-md bg-accent px-3 py-2" data-testid="banner-table-selection">
+            <span className="text-xs text-foreground truncate">
+              {selection.label} ({selection.indices.length.toLocaleString()} selected)
+            </span>
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onClearSelection} data-testid="button-clear-table-selection">
+              Show All
+            </Button>
+          </div>
+        )}
+
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
@@ -76,7 +119,7 @@ export function DataTable({ points }: DataTableProps) {
               Upload a CSV file to view point data
             </p>
           </div>
-        ) : filteredPoints.length === 0 ? (
+        ) : matchCount === 0 ? (
           <div className="flex flex-col items-center justify-center h-64 text-center p-6">
             <div className="w-12 h-12 rounded-lg bg-muted flex items-center justify-center mb-3">
               <Search className="w-6 h-6 text-muted-foreground" />
@@ -104,7 +147,8 @@ export function DataTable({ points }: DataTableProps) {
               {displayPoints.map((point, index) => (
                 <tr
                   key={point.id}
-                  className={`${index % 2 === 0 ? 'bg-background' : 'bg-card/50'} hover-elevate`}
+                  onClick={() => onRowClick?.(matchIndices[index])}
+                  className={`${index % 2 === 0 ? 'bg-background' : 'bg-card/50'} hover-elevate ${onRowClick ? 'cursor-pointer' : ''}`}
                   data-testid={`row-point-${index}`}
                 >
                   <td className="px-4 py-3 text-sm text-foreground whitespace-nowrap">
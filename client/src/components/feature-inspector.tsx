@@ -0,0 +1,260 @@
+import { useMemo, type ReactNode } from "react";
+import { Table2, X, ZoomIn } from "lucide-react";
+import type { Polygon } from "@shared/schema";
+import { findColumn, getValue, groupIds, pointId, type PointTable } from "@shared/point-table";
+import { ringAreaSquareMeters, ringCentroid, ringPerimeterMeters } from "@shared/geodesy";
+import { polygonParts } from "@shared/geojson";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+// A polygon can have hundreds of thousands of points behind it
+const LISTED_MEMBERS = 100;
+
+/** The point or polygon last clicked on the map, shown in the inspector. */
+export type InspectedFeature =
+  | { kind: "point"; index: number }
+  | { kind: "polygon"; polygon: Polygon };
+
+// [[south, west], [north, east]]
+export type FeatureBounds = [[number, number], [number, number]];
+
+/**
+ * Indices of the points a polygon was generated from - those in its group,
+ * going by the column it was grouped by.
+ */
+export function polygonMemberIndices(points: PointTable, polygon: Polygon, groupField: string): number[] {
+  const column = findColumn(points, polygon.groupField ?? groupField);
+  const ids = groupIds(column);
+  const members: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (ids[column ? column.codes[i] : 0] === polygon.groupId) members.push(i);
+  }
+  return members;
+}
+
+export function featureBounds(points: PointTable, feature: InspectedFeature): FeatureBounds {
+  if (feature.kind === "point") {
+    const latitude = points.latitude[feature.index];
+    const longitude = points.longitude[feature.index];
+    return [[latitude, longitude], [latitude, longitude]];
+  }
+
+  let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
+  for (const [outer] of polygonParts(feature.polygon)) {
+    for (const [longitude, latitude] of outer) {
+      minLat = Math.min(minLat, latitude);
+      maxLat = Math.max(maxLat, latitude);
+      minLng = Math.min(minLng, longitude);
+      maxLng = Math.max(maxLng, longitude);
+    }
+  }
+  return [[minLat, minLng], [maxLat, maxLng]];
+}
+
+/**
+ * Area and perimeter summed over every part, holes taken off the area and
+ * counted in the perimeter, and the area-weighted centroid of the parts.
+ */
+function polygonMetrics(polygon: Polygon) {
+  const parts = polygonParts(polygon);
+  let area = 0, perimeter = 0, vertices = 0, sumLng = 0, sumLat = 0;
+  for (const rings of parts) {
+    rings.forEach((ring, i) => {
+      const ringArea = ringAreaSquareMeters(ring) * (i === 0 ? 1 : -1);
+      const [longitude, latitude] = ringCentroid(ring);
+      area += ringArea;
+      sumLng += longitude * ringArea;
+      sumLat += latitude * ringArea;
+      perimeter += ringPerimeterMeters(ring);
+      vertices += ring.length;
+    });
+  }
+  const [longitude, latitude] = area > 0 ? [sumLng / area, sumLat / area] : ringCentroid(polygon.coordinates);
+  return { area, perimeter, vertices, parts: parts.length, centroid: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}` };
+}
+
+function formatArea(squareMeters: number): string {
+  if (squareMeters >= 1e6) return `${(squareMeters / 1e6).toLocaleString(undefined, { maximumFractionDigits: 2 })} km²`;
+  if (squareMeters >= 1e4) return `${(squareMeters / 1e4).toLocaleString(undefined, { maximumFractionDigits: 2 })} ha`;
+  return `${Math.round(squareMeters).toLocaleString()} m²`;
+}
+
+function formatLength(meters: number): string {
+  if (meters >= 1000) return `${(meters / 1000).toLocaleString(undefined, { maximumFractionDigits: 2 })} km`;
+  return `${Math.round(meters).toLocaleString()} m`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function AttributeRows({ rows }: { rows: [string, unknown][] }) {
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+      {rows.map(([name, value]) => (
+        <div key={name} className="contents">
+          <dt className="text-muted-foreground truncate max-w-[8rem]" title={name}>{name}</dt>
+          <dd className="text-foreground font-mono break-all" data-testid={`text-attribute-${name}`}>
+            {formatValue(value)}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+interface FeatureInspectorProps {
+  feature: InspectedFeature;
+  points: PointTable;
+  // Column the map groups points by
+  groupField: string;
+  onInspect: (feature: InspectedFeature) => void;
+  onZoomTo: (bounds: FeatureBounds) => void;
+  // Show these points in the data table
+  onSelectInTable: (label: string, indices: number[]) => void;
+  onClose: () => void;
+}
+
+/** Everything known about the clicked point or polygon. */
+export function FeatureInspector({
+  feature,
+  points,
+  groupField,
+  onInspect,
+  onZoomTo,
+  onSelectInTable,
+  onClose,
+}: FeatureInspectorProps) {
+  const polygon = feature.kind === "polygon" ? feature.polygon : null;
+
+  const members = useMemo(
+    () => (polygon ? polygonMemberIndices(points, polygon, groupField) : []),
+    [points, polygon, groupField]
+  );
+
+  const metrics = useMemo(() => (polygon ? polygonMetrics(polygon) : null), [polygon]);
+
+  const title = feature.kind === "point" ? `Point ${pointId(points, feature.index)}` : `Polygon ${feature.polygon.id}`;
+
+  const handleSelectInTable = () => {
+    if (feature.kind === "point") {
+      onSelectInTable(title, [feature.index]);
+    } else {
+      onSelectInTable(`Points of ${title}`, members);
+    }
+  };
+
+  return (
+    <Card className="w-80 max-h-full flex flex-col overflow-hidden" data-testid="card-inspector">
+      <div className="p-4 pb-3 border-b border-border space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="text-sm font-semibold text-foreground break-all" data-testid="text-inspector-title">
+            {title}
+          </h3>
+          <Button size="icon" variant="ghost" className="h-6 w-6 flex-shrink-0" onClick={onClose} data-testid="button-close-inspector">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={() => onZoomTo(featureBounds(points, feature))} data-testid="button-inspector-zoom">
+            <ZoomIn className="h-4 w-4 mr-1" />
+            Zoom To
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={handleSelectInTable}
+            disabled={feature.kind === "polygon" && members.length === 0}
+            data-testid="button-inspector-select"
+          >
+            <Table2 className="h-4 w-4 mr-1" />
+            Select in Table
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {feature.kind === "point" ? (
+          <>
+            <Section title="Location">
+              <AttributeRows
+                rows={[
+                  ["Latitude", points.latitude[feature.index].toFixed(6)],
+                  ["Longitude", points.longitude[feature.index].toFixed(6)],
+                ]}
+              />
+            </Section>
+            <Section title="Attributes">
+              {points.columns.length > 0 ? (
+                <AttributeRows rows={points.columns.map(column => [column.name, getValue(column, feature.index)])} />
+              ) : (
+                <p className="text-xs text-muted-foreground">No attribute columns</p>
+              )}
+            </Section>
+          </>
+        ) : (
+          <>
+            <Section title="Measurements">
+              <AttributeRows
+                rows={[
+                  ["Area", formatArea(metrics!.area)],
+                  ["Perimeter", formatLength(metrics!.perimeter)],
+                  ["Centroid", metrics!.centroid],
+                  ...(metrics!.parts > 1 ? [["Parts", metrics!.parts] as [string, unknown]] : []),
+                  ["Vertices", metrics!.vertices],
+                ]}
+              />
+            </Section>
+            <Section title="Attributes">
+              <AttributeRows
+                rows={[
+                  ["Group", feature.polygon.groupId],
+                  ...(feature.polygon.groupField ? [["Group field", feature.polygon.groupField] as [string, unknown]] : []),
+                  ...Object.entries(feature.polygon.properties ?? {}),
+                ]}
+              />
+            </Section>
+            <Section title={`Member Points (${members.length.toLocaleString()})`}>
+              {members.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  None of the loaded points are in this group
+                </p>
+              ) : (
+                <div className="space-y-0.5">
+                  {members.slice(0, LISTED_MEMBERS).map(index => (
+                    <button
+                      key={index}
+                      onClick={() => onInspect({ kind: "point", index })}
+                      className="w-full flex justify-between gap-2 px-2 py-1 rounded-md text-xs hover-elevate"
+                      data-testid={`button-member-${pointId(points, index)}`}
+                    >
+                      <span className="text-foreground">{pointId(points, index)}</span>
+                      <span className="font-mono text-muted-foreground">
+                        {points.latitude[index].toFixed(5)}, {points.longitude[index].toFixed(5)}
+                      </span>
+                    </button>
+                  ))}
+                  {members.length > LISTED_MEMBERS && (
+                    <p className="text-xs text-muted-foreground italic px-2">
+                      …and {(members.length - LISTED_MEMBERS).toLocaleString()} more - use Select in Table to see them all
+                    </p>
+                  )}
+                </div>
+              )}
+            </Section>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -1,28 +1,169 @@
 import { useCallback, useState, useRef, useEffect } from "react";
-import { CSVPoint } from "@shared/schema";
+import { emptyPointTable, PointTableBuilder, type PointTable } from "@shared/point-table";
 import { Upload, FileText, X, AlertCircle, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { ColumnMappingDialog } from "@/components/column-mapping-dialog";
+import { SwapReportDialog } from "@/components/swap-report-dialog";
+import { RejectedRowsPanel } from "@/components/rejected-rows-panel";
+import { loadColumnMapping, recentCRSs, saveColumnMapping } from "@/lib/column-mappings";
+import type { DetectedColumns, RejectedRow, ValidationStats } from "@shared/csv-parsing";
+import { describeCRS, WGS84 } from "@shared/crs";
+import type { GISFormat } from "@/workers/gis.worker";
+import type {
+  CSVDelimiter,
+  CSVEncoding,
+  CSVParseOptions,
+  CSVWorkerChunk,
+  CSVWorkerComplete,
+  CSVWorkerMapping,
+  CSVWorkerProgress,
+} from "@/workers/csv.worker";
+
+type UploadFormat = "csv" | "excel" | GISFormat;
+
+// File extensions accepted by the dropzone and the worker that parses each
+const FILE_FORMATS: Record<string, UploadFormat> = {
+  ".csv": "csv",
+  ".tsv": "csv",
+  ".txt": "csv",
+  ".xlsx": "excel",
+  ".xls": "excel",
+  ".geojson": "geojson",
+  ".json": "geojson",
+  ".kml": "kml",
+  ".kmz": "kmz",
+  ".zip": "shapefile",
+};
+
+const ACCEPTED_EXTENSIONS = Object.keys(FILE_FORMATS).join(",");
+
+// Select items can't have an empty value, so auto-detect is stored as "auto"
+const DELIMITER_OPTIONS: { value: string; label: string; delimiter: CSVDelimiter }[] = [
+  { value: "auto", label: "Auto-detect", delimiter: "" },
+  { value: "comma", label: "Comma (,)", delimiter: "," },
+  { value: "semicolon", label: "Semicolon (;)", delimiter: ";" },
+  { value: "tab", label: "Tab", delimiter: "\t" },
+  { value: "pipe", label: "Pipe (|)", delimiter: "|" },
+];
+
+const ENCODING_OPTIONS: { value: CSVEncoding; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "windows-1252", label: "Windows-1252" },
+  { value: "iso-8859-1", label: "ISO-8859-1 (Latin-1)" },
+];
+
+/**
+ * Seconds left at the average rate so far, or null until enough of the file
+ * has been read for the rate to mean anything.
+ */
+function estimateRemaining(startedAt: number | null, fraction: number): number | null {
+  if (startedAt === null || fraction < 0.02 || fraction >= 1) return null;
+  const elapsed = (performance.now() - startedAt) / 1000;
+  return elapsed * (1 - fraction) / fraction;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+function getFileFormat(file: File): UploadFormat | null {
+  const name = file.name.toLowerCase();
+  const ext = Object.keys(FILE_FORMATS).find(ext => name.endsWith(ext));
+  return ext ? FILE_FORMATS[ext] : null;
+}
+
+// How often points loaded so far are handed to the page while a file streams in
+const STREAM_INTERVAL_MS = 1000;
 
 interface FileUploadProps {
-  onPointsLoaded: (points: CSVPoint[]) => void;
+  onPointsLoaded: (points: PointTable) => void;
+  // Points read so far while a file is still loading, so the map and table
+  // fill in early. onPointsLoaded still follows with every point.
+  onPointsStreamed?: (points: PointTable) => void;
+  onLoadingChange?: (loading: boolean) => void;
   onError: (error: string) => void;
   onClearData?: () => void;
+  onColumnsDetected?: (columns: DetectedColumns) => void;
+  // Coordinate system the file was written in, so exports can go back to it
+  onCrsDetected?: (crs: string) => void;
+}
+
+// Header and first rows of a CSV/Excel file waiting for the user to confirm
+// which columns hold the coordinates
+interface MappingRequest {
+  columns: string[];
+  preview: Record<string, any>[];
+  detectedColumns: DetectedColumns;
+  initialMapping: DetectedColumns;
+  initialCrs?: string;
+  recentCrs: string[];
 }
 
-export function FileUpload({ onPointsLoaded, onError, onClearData }: FileUploadProps) {
+// A finished load where most rows only work with longitude and latitude
+// exchanged, waiting for the user to accept or reject the swap
+interface SwapReport {
+  stats: ValidationStats;
+  detectedColumns: DetectedColumns;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+export function FileUpload({
+  onPointsLoaded,
+  onPointsStreamed,
+  onLoadingChange,
+  onError,
+  onClearData,
+  onColumnsDetected,
+  onCrsDetected,
+}: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [status, setStatus] = useState<"idle" | "success" | "error">("idle");
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [progress, setProgress] = useState(0);
+  const [etaSeconds, setEtaSeconds] = useState<number | null>(null);
   const [rowsProcessed, setRowsProcessed] = useState(0);
+  const [parseOptions, setParseOptions] = useState<CSVParseOptions>({ delimiter: "", encoding: "utf-8" });
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(null);
+  const [swapReport, setSwapReport] = useState<SwapReport | null>(null);
+  const [rejectedReport, setRejectedReport] = useState<{
+    stats: ValidationStats;
+    rejected: RejectedRow[];
+    columns: string[];
+  } | null>(null);
 
   const { toast } = useToast();
   const workerRef = useRef<Worker | null>(null);
+  // The confirmed mapping, sent again with swap: true if the user accepts a swap
+  const mappingRef = useRef<CSVWorkerMapping | null>(null);
+  // When the full parse started, for the ETA
+  const parseStartRef = useRef<number | null>(null);
+  // Whether partial points have been handed out and must be withdrawn if the
+  // load is cancelled or fails
+  const streamedRef = useRef(false);
+
+  // Take back points streamed from a load that didn't finish
+  const withdrawStreamedPoints = useCallback(() => {
+    if (!streamedRef.current) return;
+    streamedRef.current = false;
+    onPointsLoaded(emptyPointTable());
+    onClearData?.();
+  }, [onPointsLoaded, onClearData]);
 
   // Cleanup worker on unmount
   useEffect(() => {
@@ -34,106 +175,197 @@ export function FileUpload({ onPointsLoaded, onError, onClearData }: FileUploadP
     };
   }, []);
 
-  const processCSV = useCallback(
-    (file: File) => {
+  const processFile = useCallback(
+    (file: File, format: UploadFormat, options: CSVParseOptions) => {
       setIsProcessing(true);
       setStatus("idle");
       setErrorMessage("");
       setProgress(0);
+      setEtaSeconds(null);
       setRowsProcessed(0);
-
+      setSwapReport(null);
+      setRejectedReport(null);
+      mappingRef.current = null;
 
       // Terminate existing worker if any
       if (workerRef.current) {
         workerRef.current.terminate();
       }
+      withdrawStreamedPoints();
+      onLoadingChange?.(true);
 
-      // Create new worker
-      const worker = new Worker(
-        new URL('../workers/csv.worker.ts', import.meta.url),
-        { type: 'module' }
-      );
+      // Create new worker - GIS formats share the CSV worker's message protocol
+      const worker = format === "csv" || format === "excel"
+        ? new Worker(new URL('../workers/csv.worker.ts', import.meta.url), { type: 'module' })
+        : new Worker(new URL('../workers/gis.worker.ts', import.meta.url), { type: 'module' });
       workerRef.current = worker;
 
-      // Accumulate points locally to avoid state updates during processing
-      let accumulatedPoints: CSVPoint[] = [];
+      // Accumulate the transferred chunk tables into one columnar table; a
+      // view of it is streamed to the page at most once per STREAM_INTERVAL_MS
+      let accumulatedPoints = new PointTableBuilder();
+      let lastStreamedAt = 0;
+
+      const streamPoints = () => {
+        if (!onPointsStreamed || performance.now() - lastStreamedAt < STREAM_INTERVAL_MS) return;
+        lastStreamedAt = performance.now();
+        streamedRef.current = true;
+        onPointsStreamed(accumulatedPoints.view());
+      };
+
+      const failLoad = (errorMsg: string) => {
+        setErrorMessage(errorMsg);
+        setStatus("error");
+        onError(errorMsg);
+        setIsProcessing(false);
+        setProgress(0);
+        withdrawStreamedPoints();
+        onLoadingChange?.(false);
+      };
+
+      const completeLoad = ({
+        errors,
+        stats,
+        rejected,
+        columns,
+        detectedColumns,
+        crs,
+        sheetNames: sheets,
+        sheet,
+      }: CSVWorkerComplete) => {
+        // Excel workbooks report their sheets so another one can be picked
+        setSheetNames(sheets ?? []);
+        if (sheet) {
+          setParseOptions(current => ({ ...current, sheet }));
+        }
+        setRejectedReport(stats.rejectedRows > 0 ? { stats, rejected, columns } : null);
+
+        if (accumulatedPoints.length === 0) {
+          failLoad(`No valid points found. ${errors.length > 0 ? 'Issues: ' + errors.slice(0, 3).join('; ') : ''}`);
+
+          // Cleanup
+          worker.terminate();
+          workerRef.current = null;
+          return;
+        }
+
+        if (detectedColumns) {
+          onColumnsDetected?.(detectedColumns);
+        }
+        onCrsDetected?.(crs ?? WGS84);
+
+        // Show info about detected columns
+        if (detectedColumns) {
+          const colInfo = [
+            detectedColumns.coordinates ? `Coordinates: ${detectedColumns.coordinates}` : null,
+            detectedColumns.longitude ? `Lon: ${detectedColumns.longitude}` : null,
+            detectedColumns.latitude ? `Lat: ${detectedColumns.latitude}` : null,
+            detectedColumns.group ? `Group: ${detectedColumns.group}` : null,
+            crs && crs !== WGS84 ? `Reprojected from ${describeCRS(crs)}` : null,
+          ].filter(Boolean).join(', ');
+
+          toast({
+            title: "Columns detected",
+            description: colInfo || 'Using default mapping',
+            variant: "default",
+          });
+        }
+
+        if (stats.swapApplied) {
+          toast({
+            title: "Coordinates swapped",
+            description: `Longitude and latitude were exchanged for all ${stats.totalRows.toLocaleString()} rows`,
+            variant: "default",
+          });
+        }
+
+        // Show warning if some rows were skipped - the panel lists them all
+        if (stats.rejectedRows > 0) {
+          console.warn("Skipped invalid rows:", stats.rejectedByReason, errors);
+          toast({
+            title: "Partial load",
+            description: `${accumulatedPoints.length} points loaded. Skipped ${stats.rejectedRows} invalid row(s) - see the rejected rows report.`,
+            variant: "default",
+          });
+        }
+
+        onPointsLoaded(accumulatedPoints.view());
+        streamedRef.current = false;
+        onLoadingChange?.(false);
+        setStatus("success");
+        setIsProcessing(false);
+        setProgress(100);
+        setRowsProcessed(accumulatedPoints.length);
+
+        // Cleanup
+        worker.terminate();
+        workerRef.current = null;
+      };
 
       worker.onmessage = (event) => {
         const { type } = event.data;
 
-        if (type === 'chunk') {
-          const { points, rowsProcessed } = event.data;
-          // Efficiently push chunk to accumulator
-          // Using push with spread can stack overflow for very large chunks, so we iterate
-          for (let i = 0; i < points.length; i++) {
-            accumulatedPoints.push(points[i]);
-          }
+        if (type === 'columns') {
+          // Pause for the mapping dialog, starting from the mapping remembered
+          // for this header row if there is one
+          const { columns, preview, detectedColumns } = event.data;
+          const { crs: initialCrs, ...initialMapping } =
+            loadColumnMapping(columns) ?? { ...detectedColumns, crs: undefined };
+          setMappingRequest({
+            columns,
+            preview,
+            detectedColumns,
+            initialMapping,
+            initialCrs,
+            recentCrs: recentCRSs(),
+          });
+        } else if (type === 'chunk') {
+          const { table, rowsProcessed } = event.data as CSVWorkerChunk;
+          accumulatedPoints.appendTable(table);
 
           setRowsProcessed(rowsProcessed);
-          // Estimate progress (assuming ~1M rows max for progress bar scaling, or just use a log scale)
-          // If we don't know total, we can just increment or loop 0-95
-          const estimatedProgress = Math.min(95, (rowsProcessed / 1000000) * 100);
-          setProgress(estimatedProgress);
+          streamPoints();
         } else if (type === 'progress') {
-          const { rowsProcessed: rows } = event.data;
+          const { rowsProcessed: rows, bytesProcessed, totalBytes } = event.data as CSVWorkerProgress;
           setRowsProcessed(rows);
-          const estimatedProgress = Math.min(95, (rows / 1000000) * 100);
-          setProgress(estimatedProgress);
-        } else if (type === 'complete') {
-          const { errors, detectedColumns } = event.data;
-
-          if (accumulatedPoints.length === 0) {
-            const errorMsg = `No valid points found. ${errors.length > 0 ? 'Issues: ' + errors.slice(0, 3).join('; ') : ''}`;
-            setErrorMessage(errorMsg);
-            setStatus("error");
-            onError(errorMsg);
-            setIsProcessing(false);
-            setProgress(0);
-            return;
-          }
-
-          // Show info about detected columns
-          if (detectedColumns) {
-            const colInfo = [
-              detectedColumns.longitude ? `Lon: ${detectedColumns.longitude}` : null,
-              detectedColumns.latitude ? `Lat: ${detectedColumns.latitude}` : null,
-              detectedColumns.group ? `Group: ${detectedColumns.group}` : null,
-            ].filter(Boolean).join(', ');
-
-            toast({
-              title: "Columns detected",
-              description: colInfo || 'Using default mapping',
-              variant: "default",
-            });
+          if (totalBytes > 0) {
+            const fraction = bytesProcessed / totalBytes;
+            setProgress(fraction * 100);
+            setEtaSeconds(estimateRemaining(parseStartRef.current, fraction));
           }
-
-          // Show warning if some rows were skipped
-          if (errors.length > 0) {
-            console.warn("Skipped invalid rows:", errors);
-            const sampleErrors = errors.slice(0, 2);
-            toast({
-              title: "Partial load",
-              description: `${accumulatedPoints.length} points loaded. Skipped ${errors.length} invalid row(s). Examples: ${sampleErrors.join("; ")}`,
-              variant: "default",
+        } else if (type === 'complete') {
+          const data = event.data as CSVWorkerComplete;
+
+          // Hold the result while the user decides whether the coordinate
+          // columns are the wrong way round
+          if (data.stats.swapSuggested && mappingRef.current) {
+            const mapping = mappingRef.current;
+            setSwapReport({
+              stats: data.stats,
+              detectedColumns: data.detectedColumns,
+              onAccept: () => {
+                setSwapReport(null);
+                accumulatedPoints = new PointTableBuilder();
+                lastStreamedAt = 0;
+                if (streamedRef.current) {
+                  onPointsStreamed?.(emptyPointTable());
+                }
+                setProgress(0);
+                setEtaSeconds(null);
+                setRowsProcessed(0);
+                parseStartRef.current = performance.now();
+                worker.postMessage({ ...mapping, swap: true });
+              },
+              onReject: () => {
+                setSwapReport(null);
+                completeLoad(data);
+              },
             });
+            return;
           }
 
-          onPointsLoaded(accumulatedPoints);
-          setStatus("success");
-          setIsProcessing(false);
-          setProgress(100);
-          setRowsProcessed(accumulatedPoints.length);
-
-          // Cleanup
-          worker.terminate();
-          workerRef.current = null;
+          completeLoad(data);
         } else if (type === 'error') {
-          const errorMsg = event.data.message || "Failed to parse CSV file";
-          setErrorMessage(errorMsg);
-          setStatus("error");
-          onError(errorMsg);
-          setIsProcessing(false);
-          setProgress(0);
+          failLoad(event.data.message || "Failed to parse file");
 
           // Cleanup
           worker.terminate();
@@ -142,72 +374,149 @@ export function FileUpload({ onPointsLoaded, onError, onClearData }: FileUploadP
       };
 
       worker.onerror = (error) => {
-        const errorMsg = `Worker error: ${error.message}`;
-        setErrorMessage(errorMsg);
-        setStatus("error");
-        onError(errorMsg);
-        setIsProcessing(false);
-        setProgress(0);
+        failLoad(`Worker error: ${error.message}`);
 
         // Cleanup
         worker.terminate();
         workerRef.current = null;
       };
 
-      // Start processing
+      // Start processing - GIS files are parsed straight away, CSV and Excel
+      // files restart the clock once their mapping is confirmed
+      parseStartRef.current = performance.now();
       worker.postMessage({
         type: 'parse',
         file,
+        format,
+        options,
       });
     },
-    [onPointsLoaded, onError, toast]
+    [
+      onPointsLoaded,
+      onPointsStreamed,
+      onLoadingChange,
+      onError,
+      onColumnsDetected,
+      onCrsDetected,
+      withdrawStreamedPoints,
+      toast,
+    ]
   );
 
+  const handleMappingConfirm = useCallback(
+    (mapping: DetectedColumns, crs: string) => {
+      if (!mappingRequest || !workerRef.current) return;
 
-  const handleDrop = useCallback(
-    (e: React.DragEvent) => {
-      e.preventDefault();
-      setIsDragging(false);
+      saveColumnMapping(mappingRequest.columns, { ...mapping, crs });
+      setMappingRequest(null);
+      mappingRef.current = { type: 'mapping', columns: mapping, crs };
+      parseStartRef.current = performance.now();
+      workerRef.current.postMessage(mappingRef.current);
+    },
+    [mappingRequest]
+  );
 
-      const file = e.dataTransfer.files[0];
-      if (file && file.name.endsWith(".csv")) {
+  // Terminating the worker stops the parser wherever it is and frees the
+  // points it has buffered, so nothing keeps running after a cancel
+  const handleCancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    parseStartRef.current = null;
+    setMappingRequest(null);
+    setSwapReport(null);
+    setRejectedReport(null);
+    setUploadedFile(null);
+    setIsProcessing(false);
+    setProgress(0);
+    setEtaSeconds(null);
+    setStatus("idle");
+    withdrawStreamedPoints();
+    onLoadingChange?.(false);
+  }, [withdrawStreamedPoints, onLoadingChange]);
+
+  const handleCancelParse = useCallback(() => {
+    handleCancel();
+    toast({
+      title: "Import cancelled",
+      description: "No points were loaded",
+    });
+  }, [handleCancel, toast]);
+
+
+  const handleFile = useCallback(
+    (file: File) => {
+      const format = getFileFormat(file);
+      if (format) {
+        // A new file starts from its first sheet
+        const options = { ...parseOptions, sheet: undefined };
         setUploadedFile(file);
-        processCSV(file);
+        setSheetNames([]);
+        setParseOptions(options);
+        processFile(file, format, options);
       } else {
-        const errorMsg = "Please upload a CSV file";
+        const errorMsg = "Please upload a CSV, TSV, Excel, GeoJSON, KML/KMZ or zipped Shapefile";
         setErrorMessage(errorMsg);
         setStatus("error");
         onError(errorMsg);
       }
     },
-    [processCSV, onError]
+    [processFile, onError, parseOptions]
+  );
+
+  // Re-parse the current file when delimiter, encoding or sheet changes
+  const handleParseOptionsChange = useCallback(
+    (changes: Partial<CSVParseOptions>) => {
+      const options = { ...parseOptions, ...changes };
+      setParseOptions(options);
+
+      const format = uploadedFile && getFileFormat(uploadedFile);
+      if (uploadedFile && (format === "csv" || format === "excel")) {
+        processFile(uploadedFile, format, options);
+      }
+    },
+    [parseOptions, uploadedFile, processFile]
+  );
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+
+      const file = e.dataTransfer.files[0];
+      if (file) {
+        handleFile(file);
+      }
+    },
+    [handleFile]
   );
 
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
-        setUploadedFile(file);
-        processCSV(file);
+        handleFile(file);
       }
     },
-    [processCSV]
+    [handleFile]
   );
 
   const handleRemoveFile = useCallback(() => {
     setUploadedFile(null);
+    setSheetNames([]);
+    setRejectedReport(null);
     setStatus("idle");
     setErrorMessage("");
-    onPointsLoaded([]);
+    onPointsLoaded(emptyPointTable());
     onClearData?.();
   }, [onPointsLoaded, onClearData]);
 
   return (
     <div className="space-y-4">
       <div className="space-y-2">
-        <h2 className="text-lg font-semibold text-foreground">Upload CSV</h2>
+        <h2 className="text-lg font-semibold text-foreground">Upload Data</h2>
         <p className="text-sm text-muted-foreground">
-          Upload any CSV with coordinate columns. Column names are auto-detected (e.g., lon/lat, longitude/latitude, x/y, easting/northing).
+          Upload any CSV, TSV or Excel file with coordinate columns. Column names are auto-detected (e.g., lon/lat, longitude/latitude, x/y, easting/northing), as are single columns of "lat, lon" pairs, WKT points, geohashes or MGRS. Degrees-minutes-seconds and hemisphere letters are understood, and projected coordinates such as UTM or British National Grid are reprojected on import.
+          Point layers from GeoJSON, KML/KMZ and zipped Shapefiles are also supported.
         </p>
       </div>
 
@@ -227,7 +536,7 @@ export function FileUpload({ onPointsLoaded, onError, onClearData }: FileUploadP
       >
         <input
           type="file"
-          accept=".csv"
+          accept={ACCEPTED_EXTENSIONS}
           onChange={handleFileSelect}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           data-testid="input-file"
@@ -239,10 +548,10 @@ export function FileUpload({ onPointsLoaded, onError, onClearData }: FileUploadP
           </div>
           <div className="text-center">
             <p className="text-sm font-medium text-foreground">
-              {isDragging ? "Drop CSV file here" : "Drag CSV file or click to browse"}
+              {isDragging ? "Drop file here" : "Drag file or click to browse"}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              Supports .csv files
+              Supports .csv, .tsv, .txt, .xlsx, .xls, .geojson, .kml, .kmz and zipped Shapefiles (.zip)
             </p>
           </div>
         </div>
@@ -276,21 +585,127 @@ export function FileUpload({ onPointsLoaded, onError, onClearData }: FileUploadP
         </Card>
       )}
 
+      {/* Parse Options */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-foreground">Delimiter</label>
+          <Select
+            value={DELIMITER_OPTIONS.find(o => o.delimiter === parseOptions.delimiter)?.value ?? "auto"}
+            onValueChange={(value) => handleParseOptionsChange({
+              delimiter: DELIMITER_OPTIONS.find(o => o.value === value)?.delimiter ?? "",
+            })}
+            disabled={isProcessing}
+          >
+            <SelectTrigger className="w-full" data-testid="select-delimiter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIMITER_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-foreground">Encoding</label>
+          <Select
+            value={parseOptions.encoding}
+            onValueChange={(value: CSVEncoding) => handleParseOptionsChange({ encoding: value })}
+            disabled={isProcessing}
+          >
+            <SelectTrigger className="w-full" data-testid="select-encoding">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENCODING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Sheet picker for multi-sheet Excel workbooks */}
+      {sheetNames.length > 1 && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-foreground">Sheet</label>
+          <Select
+            value={parseOptions.sheet ?? sheetNames[0]}
+            onValueChange={(value) => handleParseOptionsChange({ sheet: value })}
+            disabled={isProcessing}
+          >
+            <SelectTrigger className="w-full" data-testid="select-sheet">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheetNames.map(name => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {mappingRequest && (
+        <ColumnMappingDialog
+          open
+          columns={mappingRequest.columns}
+          preview={mappingRequest.preview}
+          detectedColumns={mappingRequest.detectedColumns}
+          initialMapping={mappingRequest.initialMapping}
+          initialCrs={mappingRequest.initialCrs}
+          recentCrs={mappingRequest.recentCrs}
+          onConfirm={handleMappingConfirm}
+          onCancel={handleCancel}
+        />
+      )}
+
+      {swapReport && (
+        <SwapReportDialog
+          open
+          stats={swapReport.stats}
+          longitudeColumn={swapReport.detectedColumns.longitude}
+          latitudeColumn={swapReport.detectedColumns.latitude}
+          onAccept={swapReport.onAccept}
+          onReject={swapReport.onReject}
+        />
+      )}
+
       {/* Status Messages */}
-      {isProcessing && (
+      {isProcessing && !mappingRequest && !swapReport && (
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm text-muted-foreground">
-            <span>Processing CSV file...</span>
+            <span>Processing file... {Math.floor(progress)}%</span>
             <span>{rowsProcessed.toLocaleString()} rows</span>
           </div>
           <Progress value={progress} className="w-full" />
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span data-testid="text-eta">
+              {etaSeconds !== null ? `About ${formatDuration(etaSeconds)} left` : "Estimating time left..."}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleCancelParse}
+              className="h-7 px-2"
+              data-testid="button-cancel-parse"
+            >
+              Cancel
+            </Button>
+          </div>
         </div>
       )}
 
       {status === "success" && (
         <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400" data-testid="status-success">
           <CheckCircle2 className="w-4 h-4" />
-          <span>CSV loaded successfully</span>
+          <span>File loaded successfully</span>
         </div>
       )}
 
@@ -300,6 +715,15 @@ export function FileUpload({ onPointsLoaded, onError, onClearData }: FileUploadP
           <span>{errorMessage}</span>
         </div>
       )}
+
+      {rejectedReport && uploadedFile && !isProcessing && (
+        <RejectedRowsPanel
+          stats={rejectedReport.stats}
+          rejected={rejectedReport.rejected}
+          columns={rejectedReport.columns}
+          fileName={uploadedFile.name}
+        />
+      )}
     </div>
   );
 }
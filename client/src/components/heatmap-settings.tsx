@@ -0,0 +1,81 @@
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Select items can't have an empty value, so "no weight column" needs one
+const COUNT_POINTS = "__count__";
+
+interface HeatmapSettingsProps {
+  radius: number;
+  onRadiusChange: (radius: number) => void;
+  weightField: string | null;
+  onWeightFieldChange: (field: string | null) => void;
+  numericColumns: string[];
+}
+
+export function HeatmapSettings({
+  radius,
+  onRadiusChange,
+  weightField,
+  onWeightFieldChange,
+  numericColumns,
+}: HeatmapSettingsProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="icon" variant="ghost" data-testid="button-heatmap-settings">
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      {/* Above the map's panes, which stack up to z-index 1000 */}
+      <PopoverContent className="z-[1100] space-y-4" data-testid="popover-heatmap-settings">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">
+            Heatmap Radius: {radius}px
+          </label>
+          <Slider
+            value={[radius]}
+            onValueChange={(values) => onRadiusChange(values[0])}
+            min={5}
+            max={80}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">
+            Weight By
+          </label>
+          <Select
+            value={weightField ?? COUNT_POINTS}
+            onValueChange={(value) => onWeightFieldChange(value === COUNT_POINTS ? null : value)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[1100]">
+              <SelectItem value={COUNT_POINTS}>Point count</SelectItem>
+              {numericColumns.map((column) => (
+                <SelectItem key={column} value={column}>
+                  {column}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Numeric columns only - each point adds its value instead of 1
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,31 +1,78 @@
 import { Card } from "@/components/ui/card";
 
-import { getColorForGroupId } from "@/lib/colors";
+import type { Classification } from "@/lib/classification";
+import { OUTLIER_COLOR } from "@/lib/outlier-layer";
+
+// A column of unique values would make thousands of entries
+const LISTED_GROUPS = 100;
+
+interface LegendClassification {
+  // Layer the colours are for
+  title: string;
+  classification: Classification;
+}
 
 interface MapLegendProps {
+  // Name of the column the groups come from
+  title?: string;
   groupIds: string[];
+  // Colour of each group, when a layer is coloured by group
+  groupColorOf?: ((groupId: string) => string) | null;
+  // Layers coloured by an attribute rather than by group
+  classifications?: LegendClassification[];
   selectedGroupIds: Set<string>;
+  // Points marked on the map as left out of their polygons
+  outlierCount?: number;
   onToggleGroup: (groupId: string) => void;
   onClearFilter: () => void;
 }
 
-export function MapLegend({ groupIds, selectedGroupIds, onToggleGroup, onClearFilter }: MapLegendProps) {
+export function MapLegend({
+  title,
+  groupIds,
+  groupColorOf,
+  classifications = [],
+  selectedGroupIds,
+  outlierCount = 0,
+  onToggleGroup,
+  onClearFilter,
+}: MapLegendProps) {
   const allSelected = selectedGroupIds.size === 0;
 
   return (
     <Card className="p-4 space-y-3 min-w-[200px] max-w-[300px]" data-testid="card-legend">
+      {classifications.map(({ title: layer, classification }) => (
+        <div key={layer} className="space-y-2 pb-3 border-b border-border" data-testid={`legend-classification-${layer.toLowerCase()}`}>
+          <h3 className="text-sm font-semibold text-foreground">
+            {layer}: {classification.field}
+          </h3>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {classification.entries.slice(0, LISTED_GROUPS).map(entry => (
+              <div key={entry.label} className="flex items-center gap-2 text-xs">
+                <div className="w-4 h-4 rounded-sm flex-shrink-0" style={{ backgroundColor: entry.color }} />
+                <span className="text-foreground truncate">{entry.label}</span>
+              </div>
+            ))}
+            {classification.entries.length > LISTED_GROUPS && (
+              <p className="text-xs text-muted-foreground italic">
+                …and {(classification.entries.length - LISTED_GROUPS).toLocaleString()} more values
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+
       <div>
         <h3 className="text-sm font-semibold text-foreground mb-1" data-testid="text-legend-title">
-          Activity Groups
+          {title || "Activity Groups"}
         </h3>
         <p className="text-xs text-muted-foreground">
           Click to filter by group
         </p>
       </div>
 
-      <div className="space-y-2">
-        {groupIds.map(groupId => {
-          const color = getColorForGroupId(groupId);
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {groupIds.slice(0, LISTED_GROUPS).map(groupId => {
           const isSelected = allSelected || selectedGroupIds.has(groupId);
 
           return (
@@ -39,19 +86,35 @@ export function MapLegend({ groupIds, selectedGroupIds, onToggleGroup, onClearFi
               `}
               data-testid={`button-legend-group-${groupId}`}
             >
-              <div
-                className="w-4 h-4 rounded-sm border-2 border-white flex-shrink-0"
-                style={{ backgroundColor: color }}
-                data-testid={`indicator-group-${groupId}`}
-              />
+              {groupColorOf && (
+                <div
+                  className="w-4 h-4 rounded-sm border-2 border-white flex-shrink-0"
+                  style={{ backgroundColor: groupColorOf(groupId) }}
+                  data-testid={`indicator-group-${groupId}`}
+                />
+              )}
               <span className="text-sm font-medium text-foreground truncate" data-testid={`text-group-${groupId}`}>
                 {groupId}
               </span>
             </button>
           );
         })}
+        {groupIds.length > LISTED_GROUPS && (
+          <p className="text-xs text-muted-foreground italic px-2">
+            …and {(groupIds.length - LISTED_GROUPS).toLocaleString()} more groups
+          </p>
+        )}
       </div>
 
+      {outlierCount > 0 && (
+        <div className="flex items-center gap-2 pt-2 border-t border-border text-xs" data-testid="legend-outliers">
+          <div className="w-4 h-4 rounded-full border-2 flex-shrink-0" style={{ borderColor: OUTLIER_COLOR }} />
+          <span className="text-foreground">
+            {outlierCount.toLocaleString()} outlier{outlierCount !== 1 ? "s" : ""} left out of the polygons
+          </span>
+        </div>
+      )}
+
       {selectedGroupIds.size > 0 && (
         <div className="pt-2 border-t border-border">
           <button
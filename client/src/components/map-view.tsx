@@ -1,33 +1,103 @@
 import { useEffect, useRef } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-import { CSVPoint, Polygon } from "@shared/schema";
-import { useToast } from "@/hooks/use-toast";
-
-// Fix Leaflet default icon paths for Vite
+import { Polygon } from "@shared/schema";
+import { emptyPointTable, type PointTable } from "@shared/point-table";
+import { polygonParts } from "@shared/geojson";
+import { PointCanvasLayer, escapeHtml, pointGroups, type PointClickEvent } from "@/lib/point-canvas-layer";
+import { PointClusterLayer } from "@/lib/point-cluster-layer";
+import { OutlierLayer } from "@/lib/outlier-layer";
+import { HeatmapLayer } from "@/lib/heatmap-layer";
+import { createBasemapLayer, type BasemapSelection } from "@/lib/basemaps";
+import type { Classification } from "@/lib/classification";
+import type { FeatureBounds, InspectedFeature } from "@/components/feature-inspector";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+
+// Fix Leaflet default icon paths for Vite - bundled, so they load offline too
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
-  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+  iconRetinaUrl: markerIcon2x,
+  iconUrl: markerIcon,
+  shadowUrl: markerShadow,
 });
 
+// Every part and ring of a polygon, [lng, lat] turned into Leaflet's [lat, lng]
+function polygonLatLngs(polygon: Polygon): [number, number][][][] {
+  return polygonParts(polygon).map(rings =>
+    rings.map(ring => ring.map(([longitude, latitude]) => [latitude, longitude] as [number, number])));
+}
+
 interface MapViewProps {
-  points: CSVPoint[];
+  points: PointTable;
+  // Points are still streaming in: fit the view to the first ones only, and
+  // again once the load finishes, rather than flying around on every update
+  loading?: boolean;
   polygons: Polygon[];
   showPoints: boolean;
   showPolygons: boolean;
+  // Column that points are grouped and filtered by - the same one polygons
+  // are generated from
+  groupField: string | null;
+  // Colours from the style editor
+  pointClassification: Classification;
+  polygonClassification: Classification;
+  // Clusters replace the individual points while on
+  showClusters: boolean;
+  showHeatmap: boolean;
+  heatmapRadius: number;
+  // Numeric column each point's heat is weighted by - null counts every point once
+  heatmapWeightField: string | null;
   selectedGroupIds: Set<string>;
+  // Row indices of the points left out of the polygons, marked while points are shown
+  outliers?: Uint32Array;
+  basemap: BasemapSelection;
+  // Clicks go to the inspector; without a handler they open a popup instead
+  onPointClick?: (index: number) => void;
+  onPolygonClick?: (polygon: Polygon) => void;
+  // Feature outlined on the map while it's in the inspector
+  inspected?: InspectedFeature | null;
+  // Fly here whenever a new target is passed
+  zoomTarget?: FeatureBounds | null;
 }
 
-import { getColorForGroupId } from "@/lib/colors";
-
-
-export function MapView({ points, polygons, showPoints, showPolygons, selectedGroupIds }: MapViewProps) {
+export function MapView({
+  points,
+  loading = false,
+  polygons,
+  showPoints,
+  showPolygons,
+  groupField,
+  pointClassification,
+  polygonClassification,
+  showClusters,
+  showHeatmap,
+  heatmapRadius,
+  heatmapWeightField,
+  selectedGroupIds,
+  outliers,
+  basemap,
+  onPointClick,
+  onPolygonClick,
+  inspected = null,
+  zoomTarget = null,
+}: MapViewProps) {
   const mapContainerRef = useRef<HTMLDivElement>(null);
+  const fittedWhileLoadingRef = useRef(false);
   const mapRef = useRef<L.Map | null>(null);
-  const pointLayersRef = useRef<L.LayerGroup | null>(null);
+  const basemapLayerRef = useRef<L.TileLayer | null>(null);
+  const pointLayerRef = useRef<PointCanvasLayer | null>(null);
+  const clusterLayerRef = useRef<PointClusterLayer | null>(null);
+  const outlierLayerRef = useRef<OutlierLayer | null>(null);
+  const heatmapLayerRef = useRef<HeatmapLayer | null>(null);
   const polygonLayersRef = useRef<L.LayerGroup | null>(null);
+  const highlightLayerRef = useRef<L.LayerGroup | null>(null);
+  // Layers are created once, so they call the latest handlers through refs
+  const onPointClickRef = useRef(onPointClick);
+  const onPolygonClickRef = useRef(onPolygonClick);
+  onPointClickRef.current = onPointClick;
+  onPolygonClickRef.current = onPolygonClick;
 
   // Initialize map
   useEffect(() => {
@@ -39,92 +109,78 @@ export function MapView({ points, polygons, showPoints, showPolygons, selectedGr
       zoomControl: true,
     });
 
-    L.tileLayer("https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png", {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
-      subdomains: 'abcd',
-      maxZoom: 20,
-    }).addTo(map);
-
     mapRef.current = map;
-    pointLayersRef.current = L.layerGroup().addTo(map);
+    heatmapLayerRef.current = new HeatmapLayer().addTo(map);
+    pointLayerRef.current = new PointCanvasLayer().addTo(map);
+    clusterLayerRef.current = new PointClusterLayer().addTo(map);
+    // Added after the points so the markers draw, and take clicks, on top
+    outlierLayerRef.current = new OutlierLayer().addTo(map);
     polygonLayersRef.current = L.layerGroup().addTo(map);
+    highlightLayerRef.current = L.layerGroup().addTo(map);
+
+    const handlePointClick = (event: L.LeafletEvent) => {
+      onPointClickRef.current?.((event as PointClickEvent).index);
+    };
+    if (onPointClickRef.current) {
+      pointLayerRef.current.on("pointclick", handlePointClick);
+      clusterLayerRef.current.on("pointclick", handlePointClick);
+      outlierLayerRef.current.on("pointclick", handlePointClick);
+    }
 
     return () => {
       map.remove();
       mapRef.current = null;
+      basemapLayerRef.current = null;
     };
   }, []);
 
-  const { toast } = useToast();
-
-  // Update points
+  // Swap the basemap - tile layers sit in their own pane, under everything else
   useEffect(() => {
-    if (!mapRef.current || !pointLayersRef.current) return;
+    const map = mapRef.current;
+    if (!map) return;
 
-    pointLayersRef.current.clearLayers();
+    basemapLayerRef.current?.remove();
+    basemapLayerRef.current = createBasemapLayer(basemap)?.addTo(map) ?? null;
+  }, [basemap]);
 
-    if (showPoints && points.length > 0) {
-      const bounds = L.latLngBounds([]);
+  // Update points - all of them go onto one canvas, filtered by group there
+  useEffect(() => {
+    if (!mapRef.current || !pointLayerRef.current) return;
 
-      // Limit rendered points to prevent crash
-      const RENDER_LIMIT = 15000;
-      const pointsToRender = points.slice(0, RENDER_LIMIT);
-
-      if (points.length > RENDER_LIMIT) {
-        // Debounce toast to avoid spamming on every render
-        const toastId = "map-limit-toast";
-        // We can't easily debounce here without extra state/refs, but this effect runs on points change
-        // so it should be fine to just show it once per data load
-        setTimeout(() => {
-          // Simple check to avoid spamming if already visible (not perfect but helpful)
-          const existingToasts = document.querySelectorAll('[data-radix-toast-announce]');
-          if (existingToasts.length === 0) {
-            toast({
-              title: "Map Rendering Limited",
-              description: `Showing first ${RENDER_LIMIT.toLocaleString()} of ${points.length.toLocaleString()} points to prevent browser crash. All points are still available for polygon generation.`,
-              variant: "default",
-            });
-          }
-        }, 500);
-      }
+    pointLayerRef.current.setData(showPoints && !showClusters ? points : emptyPointTable(), groupField, selectedGroupIds);
+  }, [points, showPoints, showClusters, groupField, selectedGroupIds]);
 
-      pointsToRender.forEach(point => {
-        // For points, use the first available property for grouping/coloring
-        const pointGroupId = Object.keys(point).find(k => !['id', 'longitude', 'latitude'].includes(k))
-          ? String(point[Object.keys(point).find(k => !['id', 'longitude', 'latitude'].includes(k))!] || 'default')
-          : 'default';
+  useEffect(() => {
+    pointLayerRef.current?.setStyle(pointClassification);
+    clusterLayerRef.current?.setStyle(pointClassification);
+  }, [pointClassification]);
 
-        if (selectedGroupIds.size > 0 && !selectedGroupIds.has(pointGroupId)) {
-          return;
-        }
+  // Update clusters
+  useEffect(() => {
+    if (!mapRef.current || !clusterLayerRef.current) return;
 
-        const color = getColorForGroupId(pointGroupId);
-        const marker = L.circleMarker([point.latitude, point.longitude], {
-          radius: 5,
-          fillColor: color,
-          color: "#fff",
-          weight: 1,
-          opacity: 1,
-          fillOpacity: 0.8,
-        });
+    clusterLayerRef.current.setData(showClusters ? points : emptyPointTable(), groupField, selectedGroupIds);
+  }, [points, showClusters, groupField, selectedGroupIds]);
 
-        marker.bindPopup(`
-          <div class="text-xs">
-            <div class="font-semibold mb-1">Point ${point.id}</div>
-            <div class="font-mono text-xs space-y-0.5">
-              <div>Lat: ${point.latitude.toFixed(6)}</div>
-              <div>Lng: ${point.longitude.toFixed(6)}</div>
-            </div>
-          </div>
-        `);
+  // Mark the outliers among whichever points are showing
+  useEffect(() => {
+    if (!mapRef.current || !outlierLayerRef.current) return;
 
-        marker.addTo(pointLayersRef.current!);
-        bounds.extend([point.latitude, point.longitude]);
-      });
+    outlierLayerRef.current
+      .setData(showPoints || showClusters ? points : emptyPointTable(), groupField, selectedGroupIds)
+      .setOutliers(outliers ?? new Uint32Array(0));
+  }, [points, outliers, showPoints, showClusters, groupField, selectedGroupIds]);
 
+  // Update heatmap
+  useEffect(() => {
+    if (!mapRef.current || !heatmapLayerRef.current) return;
 
-    }
-  }, [points, showPoints, selectedGroupIds, toast]);
+    heatmapLayerRef.current.setData(showHeatmap ? points : emptyPointTable(), groupField, selectedGroupIds);
+  }, [points, showHeatmap, groupField, selectedGroupIds]);
+
+  useEffect(() => {
+    heatmapLayerRef.current?.setOptions(heatmapRadius, heatmapWeightField);
+  }, [heatmapRadius, heatmapWeightField]);
 
   // Update polygons
   useEffect(() => {
@@ -138,10 +194,10 @@ export function MapView({ points, polygons, showPoints, showPolygons, selectedGr
           return;
         }
 
-        const color = getColorForGroupId(polygon.groupId);
+        const { field, colorOf } = polygonClassification;
+        const color = colorOf(field === null ? polygon.groupId : polygon.properties?.[field]);
 
-        // Convert [lng, lat] to [lat, lng] for Leaflet
-        const latLngs = polygon.coordinates.map(coord => [coord[1], coord[0]] as [number, number]);
+        const latLngs = polygonLatLngs(polygon);
 
         const polygonLayer = L.polygon(latLngs, {
           color: color,
@@ -151,27 +207,70 @@ export function MapView({ points, polygons, showPoints, showPolygons, selectedGr
           fillOpacity: 0.2,
         });
 
-        polygonLayer.bindPopup(`
-          <div class="text-xs">
-            <div class="font-semibold mb-1">Polygon ${polygon.id}</div>
-            <div class="space-y-0.5">
-              <div>Group: ${polygon.groupId}</div>
-              <div>Points: ${polygon.properties?.pointCount || polygon.coordinates.length}</div>
-              <div>Vertices: ${polygon.coordinates.length}</div>
+        if (onPolygonClickRef.current) {
+          polygonLayer.on("click", () => onPolygonClickRef.current?.(polygon));
+        } else {
+          polygonLayer.bindPopup(`
+            <div class="text-xs">
+              <div class="font-semibold mb-1">Polygon ${escapeHtml(polygon.id)}</div>
+              <div class="space-y-0.5">
+                <div>Group: ${escapeHtml(polygon.groupId)}</div>
+                <div>Points: ${polygon.properties?.pointCount || polygon.coordinates.length}</div>
+                ${latLngs.length > 1 ? `<div>Parts: ${latLngs.length}</div>` : ""}
+                <div>Vertices: ${latLngs.flat(2).length}</div>
+              </div>
             </div>
-          </div>
-        `);
+          `);
+        }
 
         polygonLayer.addTo(polygonLayersRef.current!);
       });
     }
 
-  }, [polygons, showPolygons, selectedGroupIds]);
+  }, [polygons, showPolygons, polygonClassification, selectedGroupIds]);
+
+  // Outline the inspected feature, above the points canvas
+  useEffect(() => {
+    const highlight = highlightLayerRef.current;
+    if (!highlight) return;
+
+    highlight.clearLayers();
+    if (inspected?.kind === "point" && inspected.index < points.length) {
+      L.circleMarker([points.latitude[inspected.index], points.longitude[inspected.index]], {
+        radius: 10,
+        color: "#111827",
+        weight: 3,
+        fill: false,
+        interactive: false,
+        pane: "markerPane",
+      }).addTo(highlight);
+    } else if (inspected?.kind === "polygon") {
+      L.polygon(polygonLatLngs(inspected.polygon), {
+        color: "#111827",
+        weight: 4,
+        dashArray: "6 4",
+        fill: false,
+        interactive: false,
+        pane: "markerPane",
+      }).addTo(highlight);
+    }
+  }, [inspected, points]);
+
+  useEffect(() => {
+    if (!mapRef.current || !zoomTarget) return;
+    mapRef.current.flyToBounds(zoomTarget, { padding: [50, 50], maxZoom: 17, duration: 1 });
+  }, [zoomTarget]);
 
   // Auto-zoom to fit visible content (points + polygons) when selection/data changes
   useEffect(() => {
     if (!mapRef.current) return;
 
+    if (!loading) {
+      fittedWhileLoadingRef.current = false;
+    } else if (fittedWhileLoadingRef.current) {
+      return;
+    }
+
     // Use a small timeout to let the map render settling happen, ensuring smooth flight
     const timer = setTimeout(() => {
       if (!mapRef.current) return;
@@ -184,10 +283,13 @@ export function MapView({ points, polygons, showPoints, showPolygons, selectedGr
         polygons.forEach(polygon => {
           if (selectedGroupIds.size > 0 && !selectedGroupIds.has(polygon.groupId)) return;
 
-          polygon.coordinates.forEach(coord => {
-            // coord is [lng, lat], bounds.extend takes [lat, lng]
-            bounds.extend([coord[1], coord[0]]);
-            hasVisibleItems = true;
+          // Outer rings hold everything
+          polygonParts(polygon).forEach(([outer]) => {
+            outer.forEach(coord => {
+              // coord is [lng, lat], bounds.extend takes [lat, lng]
+              bounds.extend([coord[1], coord[0]]);
+              hasVisibleItems = true;
+            });
           });
         });
       }
@@ -195,20 +297,30 @@ export function MapView({ points, polygons, showPoints, showPolygons, selectedGr
       // Add visible points to bounds
       // We prioritize polygons for bounds if both are present to avoid noise from scattered points?
       // No, user wants to see what is selected.
-      if (showPoints && points.length > 0) {
-        points.forEach(point => {
-          const pointGroupId = Object.keys(point).find(k => !['id', 'longitude', 'latitude'].includes(k))
-            ? String(point[Object.keys(point).find(k => !['id', 'longitude', 'latitude'].includes(k))!] || 'default')
-            : 'default';
-
-          if (selectedGroupIds.size > 0 && !selectedGroupIds.has(pointGroupId)) return;
-
-          bounds.extend([point.latitude, point.longitude]);
+      if ((showPoints || showClusters || showHeatmap) && points.length > 0) {
+        // Track the extremes directly - extending bounds per point is slow for millions
+        const { codes, ids } = pointGroups(points, groupField);
+        const selected = ids.map(id => selectedGroupIds.size === 0 || selectedGroupIds.has(id));
+        let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
+        for (let i = 0; i < points.length; i++) {
+          if (!selected[codes ? codes[i] : 0]) continue;
+
+          const latitude = points.latitude[i];
+          const longitude = points.longitude[i];
+          if (latitude < minLat) minLat = latitude;
+          if (latitude > maxLat) maxLat = latitude;
+          if (longitude < minLng) minLng = longitude;
+          if (longitude > maxLng) maxLng = longitude;
           hasVisibleItems = true;
-        });
+        }
+        if (minLat <= maxLat) {
+          bounds.extend([minLat, minLng]);
+          bounds.extend([maxLat, maxLng]);
+        }
       }
 
       if (hasVisibleItems && bounds.isValid()) {
+        fittedWhileLoadingRef.current = loading;
         mapRef.current.flyToBounds(bounds, {
           padding: [50, 50],
           duration: 1.5,
@@ -219,7 +331,7 @@ export function MapView({ points, polygons, showPoints, showPolygons, selectedGr
 
     return () => clearTimeout(timer);
 
-  }, [points, polygons, showPoints, showPolygons, selectedGroupIds]);
+  }, [points, loading, polygons, showPoints, showPolygons, showClusters, showHeatmap, groupField, selectedGroupIds]);
 
   return (
     <div
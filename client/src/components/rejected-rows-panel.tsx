@@ -0,0 +1,89 @@
+import { AlertTriangle, Download } from "lucide-react";
+import {
+  REJECT_REASON_LABELS,
+  rejectedRowsToCSV,
+  type RejectReason,
+  type RejectedRow,
+  type ValidationStats,
+} from "@shared/csv-parsing";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+// Rows listed in the panel - the download has all of them
+const LISTED_ROWS = 50;
+
+interface RejectedRowsPanelProps {
+  stats: ValidationStats;
+  rejected: RejectedRow[];
+  columns: string[];
+  fileName: string;
+}
+
+/**
+ * Accounts for every row that didn't become a point: counts per reason, the
+ * first rejected rows, and a CSV of all of them to fix and upload again.
+ */
+export function RejectedRowsPanel({ stats, rejected, columns, fileName }: RejectedRowsPanelProps) {
+  const reasons = (Object.keys(stats.rejectedByReason) as RejectReason[])
+    .filter(reason => (stats.rejectedByReason[reason] ?? 0) > 0);
+
+  const handleDownload = () => {
+    const blob = new Blob([rejectedRowsToCSV(rejected, columns)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, "")}-rejected.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="p-3 space-y-3 bg-black/5 backdrop-blur-md border-black/5 shadow-inner" data-testid="panel-rejected-rows">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-500 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium text-foreground">
+            {stats.rejectedRows.toLocaleString()} of {stats.totalRows.toLocaleString()} rows rejected
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {stats.validRows.toLocaleString()} rows loaded as points
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {reasons.map(reason => (
+          <div key={reason} className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">{REJECT_REASON_LABELS[reason]}</span>
+            <span className="font-mono text-foreground">{stats.rejectedByReason[reason]!.toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+
+      <ScrollArea className="h-32 rounded border border-border/50">
+        <ul className="p-2 space-y-1 text-xs font-mono text-muted-foreground">
+          {rejected.slice(0, LISTED_ROWS).map(({ row, error }) => (
+            <li key={row} className="break-all">{error}</li>
+          ))}
+          {rejected.length > LISTED_ROWS && (
+            <li className="italic">…and {(rejected.length - LISTED_ROWS).toLocaleString()} more in the download</li>
+          )}
+        </ul>
+      </ScrollArea>
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={handleDownload}
+        data-testid="button-download-rejected"
+      >
+        <Download className="w-4 h-4 mr-2" />
+        Download rejected rows (CSV)
+      </Button>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { Palette } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CATEGORICAL_PALETTES, COLOR_RAMPS, distinctColors, rampColors } from "@/lib/colors";
+import {
+  CLASSIFICATION_METHODS,
+  type ClassificationMethod,
+  type LayerStyle,
+} from "@/lib/classification";
+
+// Select items can't have an empty value, so "colour by group" needs one
+const BY_GROUP = "__group__";
+
+export interface StyleField {
+  name: string;
+  numeric: boolean;
+}
+
+interface LayerStyleFieldsProps {
+  style: LayerStyle;
+  onChange: (style: LayerStyle) => void;
+  fields: StyleField[];
+  groupField: string;
+}
+
+function Swatches({ colors }: { colors: string[] }) {
+  return (
+    <span className="inline-flex mr-2 align-middle">
+      {colors.map((color, i) => (
+        <span key={i} className="w-2.5 h-3" style={{ backgroundColor: color }} />
+      ))}
+    </span>
+  );
+}
+
+function LayerStyleFields({ style, onChange, fields, groupField }: LayerStyleFieldsProps) {
+  const numeric = style.field !== null && !!fields.find(field => field.name === style.field)?.numeric;
+  const categorical = style.method === "categorical";
+
+  const handleFieldChange = (value: string) => {
+    const field = value === BY_GROUP ? null : value;
+    const fieldIsNumeric = field !== null && !!fields.find(f => f.name === field)?.numeric;
+    // Numeric classes only make sense for numbers
+    if (!categorical && !fieldIsNumeric) {
+      onChange({ ...style, field, method: "categorical", palette: "default" });
+    } else {
+      onChange({ ...style, field });
+    }
+  };
+
+  const handleMethodChange = (method: ClassificationMethod) => {
+    // Categories take a categorical palette, classes a ramp
+    const switchesKind = (method === "categorical") !== categorical;
+    if (!switchesKind) {
+      onChange({ ...style, method });
+    } else {
+      onChange({ ...style, method, palette: method === "categorical" ? "default" : "viridis" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">Colour By</label>
+        <Select value={style.field ?? BY_GROUP} onValueChange={handleFieldChange}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[1100]">
+            <SelectItem value={BY_GROUP}>Group ({groupField || "none"})</SelectItem>
+            {fields.map(field => (
+              <SelectItem key={field.name} value={field.name}>
+                {field.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">Classification</label>
+        <Select value={style.method} onValueChange={handleMethodChange}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[1100]">
+            {(Object.keys(CLASSIFICATION_METHODS) as ClassificationMethod[]).map(method => (
+              <SelectItem key={method} value={method} disabled={method !== "categorical" && !numeric}>
+                {CLASSIFICATION_METHODS[method]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!numeric && (
+          <p className="text-xs text-muted-foreground">
+            Graduated classes need a numeric column
+          </p>
+        )}
+      </div>
+
+      {!categorical && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">
+            Classes: {style.classes}
+          </label>
+          <Slider
+            value={[style.classes]}
+            onValueChange={(values) => onChange({ ...style, classes: values[0] })}
+            min={3}
+            max={9}
+            step={1}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">
+          {categorical ? "Palette" : "Colour Ramp"}
+        </label>
+        <Select value={style.palette} onValueChange={(palette) => onChange({ ...style, palette })}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[1100]">
+            {categorical
+              ? Object.entries(CATEGORICAL_PALETTES).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>
+                  <Swatches colors={distinctColors(6, key)} />
+                  {label}
+                </SelectItem>
+              ))
+              : Object.entries(COLOR_RAMPS).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>
+                  <Swatches colors={rampColors(6, key)} />
+                  {label}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        {categorical && (
+          <p className="text-xs text-muted-foreground">
+            Every value gets its own colour - more values than the palette has get generated ones
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface StyleEditorProps {
+  groupField: string;
+  pointFields: StyleField[];
+  polygonFields: StyleField[];
+  pointStyle: LayerStyle;
+  onPointStyleChange: (style: LayerStyle) => void;
+  polygonStyle: LayerStyle;
+  onPolygonStyleChange: (style: LayerStyle) => void;
+}
+
+/** Choose what the points and polygons are coloured by, and how. */
+export function StyleEditor({
+  groupField,
+  pointFields,
+  polygonFields,
+  pointStyle,
+  onPointStyleChange,
+  polygonStyle,
+  onPolygonStyleChange,
+}: StyleEditorProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" data-testid="button-style-editor">
+          <Palette className="h-4 w-4 mr-1" />
+          Style
+        </Button>
+      </PopoverTrigger>
+      {/* Above the map's panes, which stack up to z-index 1000 */}
+      <PopoverContent className="z-[1100] w-80" data-testid="popover-style-editor">
+        <Tabs defaultValue="points">
+          <TabsList className="w-full mb-4">
+            <TabsTrigger value="points" className="flex-1">Points</TabsTrigger>
+            <TabsTrigger value="polygons" className="flex-1">Polygons</TabsTrigger>
+          </TabsList>
+          <TabsContent value="points">
+            <LayerStyleFields
+              style={pointStyle}
+              onChange={onPointStyleChange}
+              fields={pointFields}
+              groupField={groupField}
+            />
+          </TabsContent>
+          <TabsContent value="polygons">
+            <LayerStyleFields
+              style={polygonStyle}
+              onChange={onPolygonStyleChange}
+              fields={polygonFields}
+              groupField={groupField}
+            />
+          </TabsContent>
+        </Tabs>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,65 @@
+import type { ValidationStats } from "@shared/csv-parsing";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface SwapReportDialogProps {
+  open: boolean;
+  stats: ValidationStats;
+  longitudeColumn?: string | null;
+  latitudeColumn?: string | null;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+/**
+ * Shown when most rows only make sense with longitude and latitude exchanged,
+ * so the whole file can be reloaded swapped instead of fixing rows one by one.
+ */
+export function SwapReportDialog({
+  open,
+  stats,
+  longitudeColumn,
+  latitudeColumn,
+  onAccept,
+  onReject,
+}: SwapReportDialogProps) {
+  const percent = stats.totalRows > 0 ? Math.round((stats.swappableRows / stats.totalRows) * 100) : 0;
+  const columns = longitudeColumn && latitudeColumn
+    ? ` "${longitudeColumn}" and "${latitudeColumn}"`
+    : "";
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent data-testid="dialog-swap-report">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Longitude and latitude look swapped</AlertDialogTitle>
+          <AlertDialogDescription>
+            {stats.swappableRows.toLocaleString()} of {stats.totalRows.toLocaleString()} rows ({percent}%) are out of
+            range as read but valid with the coordinate columns{columns} exchanged. Only{" "}
+            {stats.validRows.toLocaleString()} rows are valid as read.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="text-xs text-muted-foreground">
+          Swapping applies to every row, so rows that were already valid will move too. Rejecting keeps the{" "}
+          {stats.validRows.toLocaleString()} valid rows and skips the rest.
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onReject} data-testid="button-swap-reject">
+            Keep as read
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={onAccept} data-testid="button-swap-accept">
+            Swap columns
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
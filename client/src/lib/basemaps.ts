@@ -0,0 +1,177 @@
+import L from "leaflet";
+import type { TileSourceSummary } from "@shared/schema";
+
+// The tile layer under the data: a built-in style, an archive served by this
+// server from TILES_DIR, or a URL the user pasted in. The choice is remembered
+// in the browser.
+
+const STORAGE_KEY = "geopolygon.basemap";
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const CARTO_ATTRIBUTION = `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`;
+
+interface BuiltinBasemap {
+  label: string;
+  // null draws no tiles at all - for air-gapped machines without local archives
+  url: string | null;
+  options: L.TileLayerOptions;
+}
+
+export const BUILTIN_BASEMAPS: Record<string, BuiltinBasemap> = {
+  "carto-voyager": {
+    label: "Streets (CARTO Voyager)",
+    url: "https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png",
+    options: { attribution: CARTO_ATTRIBUTION, subdomains: "abcd", maxZoom: 20 },
+  },
+  "carto-positron": {
+    label: "Light (CARTO Positron)",
+    url: "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png",
+    options: { attribution: CARTO_ATTRIBUTION, subdomains: "abcd", maxZoom: 20 },
+  },
+  "carto-dark": {
+    label: "Dark (CARTO Dark Matter)",
+    url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+    options: { attribution: CARTO_ATTRIBUTION, subdomains: "abcd", maxZoom: 20 },
+  },
+  osm: {
+    label: "OpenStreetMap",
+    url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+    options: { attribution: OSM_ATTRIBUTION, maxZoom: 19 },
+  },
+  "esri-imagery": {
+    label: "Satellite (Esri World Imagery)",
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    options: {
+      attribution: "Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community",
+      maxZoom: 19,
+    },
+  },
+  none: {
+    label: "No basemap",
+    url: null,
+    options: {},
+  },
+};
+
+export const DEFAULT_BASEMAP: BasemapSelection = { kind: "builtin", id: "carto-voyager" };
+
+export type CustomBasemapType = "xyz" | "wms" | "wmts";
+
+export const CUSTOM_BASEMAP_TYPES: Record<CustomBasemapType, string> = {
+  xyz: "XYZ tiles",
+  wms: "WMS",
+  wmts: "WMTS",
+};
+
+export interface CustomBasemap {
+  type: CustomBasemapType;
+  url: string;
+  // WMS layer names (comma separated), or the WMTS layer
+  layers?: string;
+  // WMTS tile matrix set - its matrices must be numbered by zoom level, as in
+  // GoogleMapsCompatible / EPSG:3857 sets
+  tileMatrixSet?: string;
+  attribution?: string;
+}
+
+export type BasemapSelection =
+  | { kind: "builtin"; id: string }
+  // The archive's summary is kept so the layer can be built without the server list
+  | { kind: "local"; source: TileSourceSummary }
+  | { kind: "custom"; basemap: CustomBasemap };
+
+export function loadBasemap(): BasemapSelection | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null") as BasemapSelection | null;
+    if (saved?.kind === "builtin" && !BUILTIN_BASEMAPS[saved.id]) return null;
+    return saved;
+  } catch {
+    return null;
+  }
+}
+
+export function saveBasemap(selection: BasemapSelection): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch {
+    // Storage full or disabled - the basemap just won't be remembered
+  }
+}
+
+/** The archives in the server's TILES_DIR - none when there's no server to ask. */
+export async function fetchLocalTileSources(): Promise<TileSourceSummary[]> {
+  try {
+    const res = await fetch("/api/tiles");
+    return res.ok ? await res.json() : [];
+  } catch {
+    return [];
+  }
+}
+
+export function basemapLabel(selection: BasemapSelection): string {
+  switch (selection.kind) {
+    case "builtin":
+      return BUILTIN_BASEMAPS[selection.id].label;
+    case "local":
+      return selection.source.name;
+    case "custom":
+      return `Custom ${CUSTOM_BASEMAP_TYPES[selection.basemap.type]}`;
+  }
+}
+
+// A KVP WMTS endpoint as a Leaflet template, or a RESTful one with its
+// {TileMatrix}/{TileRow}/{TileCol} placeholders swapped for Leaflet's
+function wmtsTemplate({ url, layers, tileMatrixSet }: CustomBasemap): string {
+  if (/\{TileMatrix\}/i.test(url)) {
+    return url
+      .replace(/\{TileMatrix\}/gi, "{z}")
+      .replace(/\{TileRow\}/gi, "{y}")
+      .replace(/\{TileCol\}/gi, "{x}")
+      .replace(/\{TileMatrixSet\}/gi, tileMatrixSet ?? "")
+      .replace(/\{Layer\}/gi, layers ?? "")
+      .replace(/\{Style\}/gi, "default");
+  }
+
+  const params = new URLSearchParams({
+    SERVICE: "WMTS",
+    REQUEST: "GetTile",
+    VERSION: "1.0.0",
+    LAYER: layers ?? "",
+    STYLE: "default",
+    TILEMATRIXSET: tileMatrixSet ?? "",
+    FORMAT: "image/png",
+  });
+  // Encoding the placeholders would stop Leaflet filling them in
+  return `${url}${url.includes("?") ? "&" : "?"}${params}&TILEMATRIX={z}&TILEROW={y}&TILECOL={x}`;
+}
+
+/** The tile layer for a basemap, or null for no basemap. */
+export function createBasemapLayer(selection: BasemapSelection): L.TileLayer | null {
+  switch (selection.kind) {
+    case "builtin": {
+      const { url, options } = BUILTIN_BASEMAPS[selection.id];
+      return url ? L.tileLayer(url, options) : null;
+    }
+
+    case "local": {
+      const { url, minZoom, maxZoom, bounds, attribution } = selection.source;
+      return L.tileLayer(url, {
+        attribution,
+        minZoom,
+        // Keep zooming past the archive's last level by scaling its tiles up
+        maxNativeZoom: maxZoom,
+        maxZoom: Math.max(maxZoom, 20),
+        bounds: bounds ? L.latLngBounds([bounds[1], bounds[0]], [bounds[3], bounds[2]]) : undefined,
+      });
+    }
+
+    case "custom": {
+      const basemap = selection.basemap;
+      const options = { attribution: basemap.attribution, maxZoom: 20 };
+      if (basemap.type === "wms") {
+        return L.tileLayer.wms(basemap.url, { ...options, layers: basemap.layers ?? "", format: "image/png" });
+      }
+      return L.tileLayer(basemap.type === "wmts" ? wmtsTemplate(basemap) : basemap.url, options);
+    }
+  }
+}
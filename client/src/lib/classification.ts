@@ -0,0 +1,235 @@
+import { findColumn, type PointTable } from "@shared/point-table";
+import type { Polygon } from "@shared/schema";
+import { OTHER_COLOR, distinctColors, rampColors } from "@/lib/colors";
+
+// Turns the values of an attribute into colours for the map and entries for
+// the legend - one colour per distinct value, or one per class of numbers.
+
+export type ClassificationMethod = "categorical" | "quantile" | "equal-interval" | "jenks";
+
+export const CLASSIFICATION_METHODS: Record<ClassificationMethod, string> = {
+  categorical: "Categories (one colour per value)",
+  quantile: "Quantile (equal counts)",
+  "equal-interval": "Equal interval",
+  jenks: "Natural breaks (Jenks)",
+};
+
+/** How one map layer is coloured, as chosen in the style editor. */
+export interface LayerStyle {
+  // Attribute the colours come from - null colours by group
+  field: string | null;
+  method: ClassificationMethod;
+  // Number of classes for the numeric methods
+  classes: number;
+  // A categorical palette for "categorical", otherwise a colour ramp
+  palette: string;
+}
+
+export const DEFAULT_LAYER_STYLE: LayerStyle = {
+  field: null,
+  method: "categorical",
+  classes: 5,
+  palette: "default",
+};
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+export interface Classification {
+  // Attribute the colours come from - null for the group id
+  field: string | null;
+  entries: LegendEntry[];
+  colorOf: (value: unknown) => string;
+}
+
+// Jenks is quadratic in the number of values, so it runs on a sample this big
+const JENKS_SAMPLE = 1000;
+
+/** The number a value stands for, or NaN - blanks and text aren't numbers. */
+export function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  const text = String(value ?? "").trim();
+  return text === "" ? NaN : Number(text);
+}
+
+/** True when every value with content is a number, and at least one is. */
+export function isNumericValues(values: unknown[]): boolean {
+  let found = false;
+  for (const value of values) {
+    if (value === undefined || value === null || String(value).trim() === "") continue;
+    if (!Number.isFinite(toNumber(value))) return false;
+    found = true;
+  }
+  return found;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toPrecision(4)).toLocaleString();
+}
+
+function categorical(values: unknown[], counts: ArrayLike<number> | null, palette: string): Classification {
+  const keys: string[] = [];
+  const seen = new Set<string>();
+  values.forEach((value, i) => {
+    if (value === undefined || (counts && counts[i] === 0)) return;
+    const key = String(value);
+    if (!seen.has(key)) {
+      seen.add(key);
+      keys.push(key);
+    }
+  });
+
+  const colors = distinctColors(keys.length, palette);
+  const colorByKey = new Map(keys.map((key, i) => [key, colors[i]]));
+  return {
+    field: null,
+    entries: keys.map((key, i) => ({ label: key, color: colors[i] })),
+    colorOf: value => colorByKey.get(String(value ?? "undefined")) ?? OTHER_COLOR,
+  };
+}
+
+// Values sorted, each repeated by its count unless there are too many - then
+// an evenly spaced sample of the same distribution
+function sortedValues(numbers: number[], counts: ArrayLike<number> | null, limit: number): number[] {
+  const pairs = numbers
+    .map((value, i) => [value, counts ? counts[i] : 1] as [number, number])
+    .filter(([value, count]) => Number.isFinite(value) && count > 0)
+    .sort((a, b) => a[0] - b[0]);
+
+  const total = pairs.reduce((sum, [, count]) => sum + count, 0);
+  const size = Math.min(total, limit);
+  const sorted: number[] = [];
+  let cumulative = 0;
+  let pair = 0;
+  for (let i = 0; i < size; i++) {
+    // The value at the middle of the i-th of `size` equal slices
+    const target = ((i + 0.5) / size) * total;
+    while (cumulative + pairs[pair][1] < target) {
+      cumulative += pairs[pair][1];
+      pair++;
+    }
+    sorted.push(pairs[pair][0]);
+  }
+  return sorted;
+}
+
+// Upper bound of each class for Jenks natural breaks over sorted values
+function jenksBreaks(data: number[], classes: number): number[] {
+  const n = data.length;
+  const lowerClassLimits = Array.from({ length: n + 1 }, () => new Int32Array(classes + 1));
+  const varianceCombinations = Array.from({ length: n + 1 }, () => new Float64Array(classes + 1).fill(Infinity));
+
+  for (let j = 1; j <= classes; j++) {
+    lowerClassLimits[1][j] = 1;
+    varianceCombinations[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerClassLimit = l - m + 1;
+      const value = data[lowerClassLimit - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+
+      const previous = lowerClassLimit - 1;
+      if (previous === 0) continue;
+      for (let j = 2; j <= classes; j++) {
+        if (varianceCombinations[l][j] >= variance + varianceCombinations[previous][j - 1]) {
+          lowerClassLimits[l][j] = lowerClassLimit;
+          varianceCombinations[l][j] = variance + varianceCombinations[previous][j - 1];
+        }
+      }
+    }
+    lowerClassLimits[l][1] = 1;
+    varianceCombinations[l][1] = variance;
+  }
+
+  const breaks = new Array<number>(classes);
+  breaks[classes - 1] = data[n - 1];
+  let k = n;
+  for (let j = classes; j >= 2; j--) {
+    breaks[j - 2] = data[lowerClassLimits[k][j] - 2];
+    k = lowerClassLimits[k][j] - 1;
+  }
+  return breaks;
+}
+
+function numeric(values: unknown[], counts: ArrayLike<number> | null, style: LayerStyle): Classification | null {
+  const numbers = values.map(toNumber);
+  const sorted = sortedValues(numbers, counts, style.method === "jenks" ? JENKS_SAMPLE : Infinity);
+  if (sorted.length === 0) return null;
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const distinct = new Set(sorted).size;
+  const classes = Math.max(1, Math.min(style.classes, distinct));
+
+  let breaks: number[];
+  if (style.method === "jenks") {
+    breaks = jenksBreaks(sorted, classes);
+  } else if (style.method === "quantile") {
+    breaks = Array.from({ length: classes }, (_, i) => sorted[Math.ceil(((i + 1) / classes) * sorted.length) - 1]);
+  } else {
+    breaks = Array.from({ length: classes }, (_, i) => min + ((max - min) * (i + 1)) / classes);
+  }
+  breaks[classes - 1] = max;
+  // Skewed data can give several classes the same bound - keep one of each
+  breaks = breaks.filter((limit, i) => i === 0 || limit > breaks[i - 1]);
+
+  const colors = rampColors(breaks.length, style.palette);
+  return {
+    field: null,
+    entries: breaks.map((limit, i) => ({
+      label: `${formatNumber(i === 0 ? min : breaks[i - 1])} – ${formatNumber(limit)}`,
+      color: colors[i],
+    })),
+    colorOf: value => {
+      const number = toNumber(value);
+      if (!Number.isFinite(number)) return OTHER_COLOR;
+      const index = breaks.findIndex(limit => number <= limit);
+      return colors[index === -1 ? colors.length - 1 : index];
+    },
+  };
+}
+
+/**
+ * Classify a list of values (with how often each occurs, if they're distinct
+ * values rather than one per feature). Numeric methods fall back to categories
+ * when there are no numbers to classify.
+ */
+export function classify(values: unknown[], counts: ArrayLike<number> | null, style: LayerStyle): Classification {
+  if (style.method !== "categorical") {
+    const classification = numeric(values, counts, style);
+    if (classification) return { ...classification, field: style.field };
+  }
+  return { ...categorical(values, counts, style.method === "categorical" ? style.palette : "default"), field: style.field };
+}
+
+/**
+ * Colours for the points: by group (the ids in legend order) or by one of
+ * their columns.
+ */
+export function classifyPoints(points: PointTable, groupIds: string[], style: LayerStyle): Classification {
+  if (style.field === null) return classify(groupIds, null, style);
+
+  const column = findColumn(points, style.field);
+  if (!column) return classify([], null, style);
+
+  const counts = new Uint32Array(column.values.length);
+  for (let i = 0; i < points.length; i++) {
+    counts[column.codes[i]]++;
+  }
+  return classify(column.values, counts, style);
+}
+
+/** Colours for the polygons: by group or by one of their aggregated properties. */
+export function classifyPolygons(polygons: Polygon[], groupIds: string[], style: LayerStyle): Classification {
+  if (style.field === null) return classify(groupIds, null, style);
+  return classify(polygons.map(polygon => polygon.properties?.[style.field!]), null, style);
+}
@@ -1,21 +1,111 @@
-// Color palette for group IDs
-const COLOR_PALETTE = [
-    "#2563eb", // blue
-    "#059669", // green
-    "#d97706", // orange
-    "#9333ea", // purple
-    "#dc2626", // red
-    "#0891b2", // cyan
-    "#ea580c", // orange-red
-    "#7c3aed", // violet
-    "#0d9488", // teal
-    "#c026d3", // fuchsia
-];
-
-export function getColorForGroupId(groupId: string): string {
-    const hash = groupId.split("").reduce((acc, char) => {
-        return char.charCodeAt(0) + ((acc << 5) - acc);
-    }, 0);
-    const index = Math.abs(hash) % COLOR_PALETTE.length;
-    return COLOR_PALETTE[index];
+// Categorical palettes for groups and other text values. Every colour in a
+// palette is distinct; once a palette runs out, distinctColors makes more.
+export const CATEGORICAL_PALETTES: Record<string, { label: string; colors: string[] }> = {
+    default: {
+        label: "Default",
+        colors: [
+            "#2563eb", // blue
+            "#059669", // green
+            "#d97706", // orange
+            "#9333ea", // purple
+            "#dc2626", // red
+            "#0891b2", // cyan
+            "#ea580c", // orange-red
+            "#7c3aed", // violet
+            "#0d9488", // teal
+            "#c026d3", // fuchsia
+        ],
+    },
+    "okabe-ito": {
+        label: "Okabe-Ito (colour-blind safe)",
+        colors: ["#e69f00", "#56b4e9", "#009e73", "#f0e442", "#0072b2", "#d55e00", "#cc79a7", "#000000"],
+    },
+    tableau: {
+        label: "Tableau 10",
+        colors: ["#4e79a7", "#f28e2b", "#e15759", "#76b7b2", "#59a14f", "#edc948", "#b07aa1", "#ff9da7", "#9c755f", "#bab0ac"],
+    },
+};
+
+// Sequential ramps for numeric classes, from low to high values. All of them
+// stay readable with the common forms of colour-blindness.
+export const COLOR_RAMPS: Record<string, { label: string; stops: string[] }> = {
+    viridis: {
+        label: "Viridis",
+        stops: ["#440154", "#482878", "#3e4989", "#31688e", "#26828e", "#1f9e89", "#35b779", "#6ece58", "#b5de2b", "#fde725"],
+    },
+    cividis: {
+        label: "Cividis",
+        stops: ["#00204d", "#00336f", "#39486b", "#575d6d", "#707173", "#8a8779", "#a69d75", "#c4b56c", "#e4cf5b", "#ffea46"],
+    },
+    magma: {
+        label: "Magma",
+        stops: ["#180f3d", "#440f76", "#721f81", "#9e2f7f", "#cd4071", "#f1605d", "#fd9668", "#feca8d", "#fcfdbf"],
+    },
+    blues: {
+        label: "Blues",
+        stops: ["#deebf7", "#c6dbef", "#9ecae1", "#6baed6", "#4292c6", "#2171b5", "#08519c", "#08306b"],
+    },
+    "yl-or-rd": {
+        label: "Yellow-Orange-Red",
+        stops: ["#ffeda0", "#fed976", "#feb24c", "#fd8d3c", "#fc4e2a", "#e31a1c", "#bd0026", "#800026"],
+    },
+};
+
+// For "no value", and for values a classification doesn't cover
+export const OTHER_COLOR = "#9ca3af";
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+    const s = saturation / 100;
+    const l = lightness / 100;
+    const a = s * Math.min(l, 1 - l);
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        return Math.round(value * 255).toString(16).padStart(2, "0");
+    };
+    return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/**
+ * `count` different colours: the palette's own first, then hues spread by the
+ * golden angle at alternating lightness. No colour is ever handed out twice.
+ */
+export function distinctColors(count: number, palette = "default"): string[] {
+    const base = (CATEGORICAL_PALETTES[palette] ?? CATEGORICAL_PALETTES.default).colors;
+    const colors = base.slice(0, count);
+    const used = new Set([...colors, OTHER_COLOR]);
+
+    for (let i = 0; colors.length < count; i++) {
+        const hue = (i * 137.508) % 360;
+        const lightness = [45, 60, 35][i % 3];
+        let color = hslToHex(hue, 70, lightness);
+        // Rounding (or thousands of values) can repeat a colour - step through
+        // the RGB space from it until an unused one turns up
+        while (used.has(color)) {
+            color = "#" + ((parseInt(color.slice(1), 16) + 0x010305) % 0x1000000).toString(16).padStart(6, "0");
+        }
+        colors.push(color);
+        used.add(color);
+    }
+    return colors;
+}
+
+function parseHex(hex: string): [number, number, number] {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/** `count` colours evenly spaced along a ramp, low to high. */
+export function rampColors(count: number, ramp = "viridis"): string[] {
+    const stops = (COLOR_RAMPS[ramp] ?? COLOR_RAMPS.viridis).stops.map(parseHex);
+
+    return Array.from({ length: count }, (_, i) => {
+        const position = (count === 1 ? 1 : i / (count - 1)) * (stops.length - 1);
+        const lower = Math.floor(position);
+        const upper = Math.min(lower + 1, stops.length - 1);
+        const f = position - lower;
+        return "#" + stops[lower]
+            .map((channel, c) => Math.round(channel + (stops[upper][c] - channel) * f).toString(16).padStart(2, "0"))
+            .join("");
+    });
 }
@@ -0,0 +1,62 @@
+import type { DetectedColumns } from "@shared/csv-parsing";
+
+// Column mappings the user confirmed, keyed by the file's header row so the
+// next file with the same columns starts from the same choices.
+
+const STORAGE_KEY = "geopolygon.columnMappings";
+const MAX_SAVED_MAPPINGS = 50;
+
+// The coordinate system is remembered with the columns, so projected files
+// from the same source don't need their CRS picked again
+export interface SavedColumnMapping extends DetectedColumns {
+  crs?: string;
+}
+
+type SavedMappings = Record<string, SavedColumnMapping>;
+
+export function headerSignature(columns: string[]): string {
+  return columns.map(col => col.trim().toLowerCase()).join("\u001f");
+}
+
+function readSavedMappings(): SavedMappings {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function loadColumnMapping(columns: string[]): SavedColumnMapping | null {
+  const mapping = readSavedMappings()[headerSignature(columns)];
+  if (!mapping) return null;
+
+  // Ignore a saved mapping that refers to columns this file doesn't have
+  const valid = [mapping.longitude, mapping.latitude, mapping.group, mapping.coordinates ?? null]
+    .every(col => col === null || columns.includes(col));
+  return valid ? mapping : null;
+}
+
+export function saveColumnMapping(columns: string[], mapping: SavedColumnMapping): void {
+  const signature = headerSignature(columns);
+  const saved = readSavedMappings();
+  delete saved[signature];
+  saved[signature] = mapping;
+
+  // Keep only the most recently used mappings
+  const entries = Object.entries(saved).slice(-MAX_SAVED_MAPPINGS);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch {
+    // Storage full or disabled - the mapping just won't be remembered
+  }
+}
+
+/** Coordinate systems of the saved mappings, most recently used first. */
+export function recentCRSs(): string[] {
+  const codes = Object.values(readSavedMappings())
+    .reverse()
+    .map(mapping => mapping.crs)
+    .filter((crs): crs is string => !!crs);
+  return Array.from(new Set(codes));
+}
@@ -0,0 +1,127 @@
+import L from "leaflet";
+import { columnNumbers, findColumn } from "@shared/point-table";
+import { ProjectedPointsLayer, type ViewTransform } from "@/lib/point-canvas-layer";
+
+export const DEFAULT_HEATMAP_RADIUS = 25;
+
+// Colour stops from sparse to dense, as used by Leaflet.heat
+const GRADIENT: [number, [number, number, number]][] = [
+  [0.4, [0, 0, 255]],
+  [0.6, [0, 255, 255]],
+  [0.7, [0, 255, 0]],
+  [0.8, [255, 255, 0]],
+  [1, [255, 0, 0]],
+];
+
+// RGBA for each of 256 intensity levels, packed for a little-endian Uint32 view
+const PALETTE = (() => {
+  const palette = new Uint32Array(256);
+  for (let level = 1; level < 256; level++) {
+    const t = level / 255;
+    const upper = GRADIENT.findIndex(([stop]) => t <= stop);
+    const [stopB, colorB] = GRADIENT[upper];
+    const [stopA, colorA] = upper > 0 ? GRADIENT[upper - 1] : [0, colorB];
+    const f = stopB > stopA ? (t - stopA) / (stopB - stopA) : 1;
+    const [r, g, b] = colorA.map((channel, i) => Math.round(channel + (colorB[i] - channel) * f));
+    const alpha = Math.round(Math.min(1, 0.15 + t * 1.2) * 220);
+    palette[level] = ((alpha << 24) | (b << 16) | (g << 8) | r) >>> 0;
+  }
+  return palette;
+})();
+
+// One pass of a box blur along rows (step 1) or columns (step width), using a
+// running sum so the cost doesn't depend on the radius
+function boxBlur(source: Float32Array, target: Float32Array, width: number, height: number, radius: number, horizontal: boolean): void {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 1 : width;
+  const scale = 1 / (radius * 2 + 1);
+
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line;
+    let sum = 0;
+    for (let i = 0; i <= Math.min(radius, length - 1); i++) {
+      sum += source[start + i * step];
+    }
+    for (let i = 0; i < length; i++) {
+      target[start + i * step] = sum * scale;
+      const enter = i + radius + 1;
+      const leave = i - radius;
+      if (enter < length) sum += source[start + enter * step];
+      if (leave >= 0) sum -= source[start + leave * step];
+    }
+  }
+}
+
+/**
+ * Point density as a colour ramp: each visible point adds its weight (1, or
+ * the value of a numeric column) to the pixel it falls on, and the sums are
+ * spread over the radius with a blur that approximates a Gaussian.
+ */
+export class HeatmapLayer extends ProjectedPointsLayer {
+  private radius = DEFAULT_HEATMAP_RADIUS;
+  private weightField: string | null = null;
+  // Weight per code of the weight column - null weighs every point as 1
+  private weights: Float64Array | null = null;
+  private weightCodes: Uint32Array | null = null;
+
+  /** Set the blur radius in pixels and the numeric column to weight by, then redraw. */
+  setOptions(radius: number, weightField: string | null): this {
+    this.radius = radius;
+    this.weightField = weightField;
+    this.dataChanged();
+    this.redraw();
+    return this;
+  }
+
+  protected dataChanged(): void {
+    const column = this.weightField ? findColumn(this.points, this.weightField) : undefined;
+    const numbers = column ? columnNumbers(column) : null;
+    this.weights = numbers;
+    this.weightCodes = numbers ? column!.codes : null;
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D, size: L.Point, { scale, originX, originY }: ViewTransform): void {
+    // Points up to a radius off screen still warm its edges, so the grid is padded
+    const pad = Math.ceil(this.radius);
+    const width = size.x + pad * 2;
+    const height = size.y + pad * 2;
+    const density = new Float32Array(width * height);
+    // Three box blurs of a third of the radius each come close to a Gaussian
+    const boxRadius = Math.max(1, Math.round(this.radius / 3));
+
+    for (let i = 0; i < this.points.length; i++) {
+      if (!this.isVisible(i)) continue;
+      const x = Math.round(this.mercatorX[i] * scale - originX) + pad;
+      const y = Math.round(this.mercatorY[i] * scale - originY) + pad;
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+
+      const weight = this.weights ? this.weights[this.weightCodes![i]] : 1;
+      if (weight > 0) density[y * width + x] += weight;
+    }
+
+    const scratch = new Float32Array(width * height);
+    for (let pass = 0; pass < 3; pass++) {
+      boxBlur(density, scratch, width, height, boxRadius, true);
+      boxBlur(scratch, density, width, height, boxRadius, false);
+    }
+
+    let max = 0;
+    for (let y = pad; y < pad + size.y; y++) {
+      for (let x = pad; x < pad + size.x; x++) {
+        if (density[y * width + x] > max) max = density[y * width + x];
+      }
+    }
+    if (max === 0) return;
+
+    const image = ctx.createImageData(size.x, size.y);
+    const pixels = new Uint32Array(image.data.buffer);
+    for (let y = 0; y < size.y; y++) {
+      for (let x = 0; x < size.x; x++) {
+        const value = density[(y + pad) * width + x + pad];
+        pixels[y * size.x + x] = PALETTE[Math.min(255, Math.round((value / max) * 255))];
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+}
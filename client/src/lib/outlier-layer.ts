@@ -0,0 +1,80 @@
+import L from "leaflet";
+import {
+  CLICK_TOLERANCE,
+  ProjectedPointsLayer,
+  type ViewTransform,
+} from "@/lib/point-canvas-layer";
+
+// Drawn larger than a point, so the ring shows around it
+export const OUTLIER_RADIUS = 7;
+export const OUTLIER_COLOR = "#dc2626";
+
+/**
+ * The points left out of their polygons as outliers, each circled and crossed
+ * out on top of the points layer. Follows the same group filter as the points.
+ */
+export class OutlierLayer extends ProjectedPointsLayer {
+  private outliers = new Uint32Array(0);
+
+  /** Replace the row indices of the outliers, then redraw. */
+  setOutliers(outliers: Uint32Array): this {
+    this.outliers = outliers;
+    this.redraw();
+    return this;
+  }
+
+  // Indices from a previous table can outlive it by a render
+  private isShown(index: number): boolean {
+    return index < this.points.length && this.isVisible(index);
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D, size: L.Point, { scale, originX, originY }: ViewTransform): void {
+    const r = OUTLIER_RADIUS;
+    const cross = r * Math.SQRT1_2;
+
+    ctx.beginPath();
+    for (const index of this.outliers) {
+      if (!this.isShown(index)) continue;
+      const x = this.mercatorX[index] * scale - originX;
+      const y = this.mercatorY[index] * scale - originY;
+      if (x < -r || y < -r || x > size.x + r || y > size.y + r) continue;
+
+      ctx.moveTo(x + r, y);
+      ctx.arc(x, y, r, 0, Math.PI * 2);
+      ctx.moveTo(x - cross, y - cross);
+      ctx.lineTo(x + cross, y + cross);
+      ctx.moveTo(x - cross, y + cross);
+      ctx.lineTo(x + cross, y - cross);
+    }
+
+    // A white halo keeps the red readable on any basemap or point colour
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = "#fff";
+    ctx.stroke();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = OUTLIER_COLOR;
+    ctx.stroke();
+  }
+
+  protected handleClick(event: L.LeafletMouseEvent): void {
+    const map = this._map;
+    if (!map) return;
+
+    const { scale, originX, originY } = this.viewTransform(map);
+    const radius = OUTLIER_RADIUS + CLICK_TOLERANCE;
+    let nearest: number | null = null;
+    let nearestDistance = radius * radius;
+
+    for (const index of this.outliers) {
+      if (!this.isShown(index)) continue;
+      const dx = this.mercatorX[index] * scale - originX - event.containerPoint.x;
+      const dy = this.mercatorY[index] * scale - originY - event.containerPoint.y;
+      const distance = dx * dx + dy * dy;
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    }
+    if (nearest !== null) this.selectPoint(nearest);
+  }
+}
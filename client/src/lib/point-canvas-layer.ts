@@ -0,0 +1,320 @@
+import L from "leaflet";
+import { emptyPointTable, findColumn, getValue, groupIds, pointId, type PointTable } from "@shared/point-table";
+import { OTHER_COLOR } from "@/lib/colors";
+import type { Classification } from "@/lib/classification";
+
+// Draws every loaded point onto one canvas instead of one Leaflet marker per
+// point, so millions of points stay responsive. Points are projected to Web
+// Mercator once per table; each redraw only scales and offsets them.
+
+// Above the SVG overlay pane (400) the polygons draw in, below markers (600)
+const POINTS_PANE = "pointsPane";
+
+// Below this many points each one is drawn as an outlined circle; above it
+// points are stamped straight into the pixel buffer, which is much faster
+const OUTLINE_LIMIT = 20000;
+export const OUTLINE_RADIUS = 5;
+const STAMP_RADIUS = 2;
+
+// How far (in pixels) from a point's centre a click still selects it
+export const CLICK_TOLERANCE = 3;
+
+// Points are filtered by their group id in the selected group field, the same
+// id their polygon gets. Worked out once per distinct value rather than once
+// per point.
+export interface PointGroups {
+  codes: Uint32Array | null; // Per point, index into ids - null means all 'undefined'
+  ids: string[];
+}
+
+export function pointGroups(points: PointTable, field: string | null): PointGroups {
+  const column = field ? findColumn(points, field) : undefined;
+  return { codes: column ? column.codes : null, ids: groupIds(column) };
+}
+
+// Attribute values come straight from the uploaded file
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export function pointPopupContent(points: PointTable, index: number): string {
+  const attributes = points.columns
+    .map(column => `<div>${escapeHtml(column.name)}: ${escapeHtml(String(getValue(column, index) ?? ""))}</div>`)
+    .join("");
+  return `
+    <div class="text-xs">
+      <div class="font-semibold mb-1">Point ${pointId(points, index)}</div>
+      <div class="font-mono text-xs space-y-0.5">
+        <div>Lat: ${points.latitude[index].toFixed(6)}</div>
+        <div>Lng: ${points.longitude[index].toFixed(6)}</div>
+      </div>
+      <div class="space-y-0.5 mt-1">${attributes}</div>
+    </div>
+  `;
+}
+
+/** Fired by the point layers when a point is clicked, if anything listens for "pointclick". */
+export interface PointClickEvent extends L.LeafletEvent {
+  index: number;
+}
+
+interface Projection {
+  x: Float64Array;
+  y: Float64Array;
+}
+
+// Shared by every layer showing the same table
+const projections = new WeakMap<PointTable, Projection>();
+
+// Normalised Web Mercator (0-1 across the world) for each point
+function project(points: PointTable): Projection {
+  let projection = projections.get(points);
+  if (projection) return projection;
+
+  const { length, longitude, latitude } = points;
+  projection = { x: new Float64Array(length), y: new Float64Array(length) };
+  for (let i = 0; i < length; i++) {
+    const sin = Math.sin((Math.max(-85.0511, Math.min(85.0511, latitude[i])) * Math.PI) / 180);
+    projection.x[i] = (longitude[i] + 180) / 360;
+    projection.y[i] = 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+  }
+  projections.set(points, projection);
+  return projection;
+}
+
+// Pixel scale of the whole world and the world pixel at the canvas's top left
+export interface ViewTransform {
+  scale: number;
+  originX: number;
+  originY: number;
+}
+
+/**
+ * Base for the layers that draw the loaded points onto a canvas covering the
+ * map: handles the canvas, projection and group filtering, and leaves the
+ * drawing (and what a click does) to the subclass.
+ */
+export abstract class ProjectedPointsLayer extends L.Layer {
+  protected canvas: HTMLCanvasElement | null = null;
+  protected points: PointTable = emptyPointTable();
+  protected mercatorX = new Float64Array(0);
+  protected mercatorY = new Float64Array(0);
+  protected groups: PointGroups = { codes: null, ids: ["undefined"] };
+  protected visible: boolean[] = [true];
+  protected visibleCount = 0;
+  // Colour of each point is colors[colorCodes[i]] - a code of the style's
+  // column, or of the group when the style colours by group
+  protected style: Pick<Classification, "field" | "colorOf"> = { field: null, colorOf: () => OTHER_COLOR };
+  protected colorCodes: Uint32Array | null = null;
+  protected colors: string[] = [OTHER_COLOR];
+
+  onAdd(map: L.Map): this {
+    if (!map.getPane(POINTS_PANE)) {
+      map.createPane(POINTS_PANE).style.zIndex = "450";
+    }
+
+    // leaflet-zoom-hide keeps the stale frame hidden during zoom animations
+    this.canvas = L.DomUtil.create("canvas", "leaflet-zoom-hide") as HTMLCanvasElement;
+    this.canvas.style.pointerEvents = "none";
+    map.getPane(POINTS_PANE)!.appendChild(this.canvas);
+
+    map.on("moveend zoomend resize", this.redraw, this);
+    map.on("click", this.handleClick, this);
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off("moveend zoomend resize", this.redraw, this);
+    map.off("click", this.handleClick, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    return this;
+  }
+
+  /** Replace the points, the field they're grouped by and which groups are shown, then redraw. */
+  setData(points: PointTable, groupField: string | null, selectedGroupIds: Set<string>): this {
+    this.points = points;
+    ({ x: this.mercatorX, y: this.mercatorY } = project(points));
+
+    this.groups = pointGroups(points, groupField);
+    this.visible = this.groups.ids.map(id => selectedGroupIds.size === 0 || selectedGroupIds.has(id));
+
+    const { codes } = this.groups;
+    this.visibleCount = 0;
+    for (let i = 0; i < points.length; i++) {
+      if (this.visible[codes ? codes[i] : 0]) this.visibleCount++;
+    }
+
+    this.restyle();
+    this.dataChanged();
+    this.redraw();
+    return this;
+  }
+
+  /** Colour the points by a classification of the group or of one of their columns. */
+  setStyle(style: Pick<Classification, "field" | "colorOf">): this {
+    this.style = style;
+    this.restyle();
+    this.dataChanged();
+    this.redraw();
+    return this;
+  }
+
+  private restyle(): void {
+    if (this.style.field === null) {
+      this.colorCodes = this.groups.codes;
+      this.colors = this.groups.ids.map(this.style.colorOf);
+      return;
+    }
+
+    const column = findColumn(this.points, this.style.field);
+    this.colorCodes = column ? column.codes : null;
+    this.colors = column ? column.values.map(this.style.colorOf) : [OTHER_COLOR];
+  }
+
+  protected colorIndex(index: number): number {
+    return this.colorCodes ? this.colorCodes[index] : 0;
+  }
+
+  // Called after the data or style changes, before the redraw - for anything
+  // derived from them
+  protected dataChanged(): void {}
+
+  protected abstract draw(ctx: CanvasRenderingContext2D, size: L.Point, view: ViewTransform): void;
+
+  protected handleClick(_event: L.LeafletMouseEvent): void {}
+
+  protected viewTransform(map: L.Map): ViewTransform {
+    const scale = 256 * Math.pow(2, map.getZoom());
+    const origin = map.containerPointToLayerPoint([0, 0]).add(map.getPixelOrigin());
+    return { scale, originX: origin.x, originY: origin.y };
+  }
+
+  protected isVisible(index: number): boolean {
+    const { codes } = this.groups;
+    return this.visible[codes ? codes[index] : 0];
+  }
+
+  protected redraw(): void {
+    const map = this._map;
+    const canvas = this.canvas;
+    if (!map || !canvas) return;
+
+    const size = map.getSize();
+    canvas.width = size.x;
+    canvas.height = size.y;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx || this.visibleCount === 0) return;
+
+    this.draw(ctx, size, this.viewTransform(map));
+  }
+
+  // Hand the point to a "pointclick" listener (the inspector), or show a
+  // popup when nothing listens
+  protected selectPoint(index: number): void {
+    if (!this._map) return;
+    // The typings only list Leaflet's own event names
+    if (this.listens("pointclick" as "click")) {
+      this.fire("pointclick", { index });
+      return;
+    }
+    L.popup()
+      .setLatLng([this.points.latitude[index], this.points.longitude[index]])
+      .setContent(pointPopupContent(this.points, index))
+      .openOn(this._map);
+  }
+}
+
+function packColor(hex: string): number {
+  const value = parseInt(hex.slice(1), 16);
+  const r = (value >> 16) & 0xff;
+  const g = (value >> 8) & 0xff;
+  const b = value & 0xff;
+  // ImageData is RGBA in memory, read here as a little-endian Uint32
+  return ((0xff << 24) | (b << 16) | (g << 8) | r) >>> 0;
+}
+
+/** Every visible point as a small circle in its style colour. */
+export class PointCanvasLayer extends ProjectedPointsLayer {
+  private packedColors: number[] = [];
+
+  protected dataChanged(): void {
+    this.packedColors = this.colors.map(packColor);
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D, size: L.Point, { scale, originX, originY }: ViewTransform): void {
+
+    if (this.visibleCount <= OUTLINE_LIMIT) {
+      ctx.strokeStyle = "#fff";
+      ctx.lineWidth = 1;
+      ctx.globalAlpha = 0.8;
+      for (let i = 0; i < this.points.length; i++) {
+        if (!this.isVisible(i)) continue;
+        const x = this.mercatorX[i] * scale - originX;
+        const y = this.mercatorY[i] * scale - originY;
+        if (x < -OUTLINE_RADIUS || y < -OUTLINE_RADIUS || x > size.x + OUTLINE_RADIUS || y > size.y + OUTLINE_RADIUS) continue;
+
+        ctx.beginPath();
+        ctx.arc(x, y, OUTLINE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = this.colors[this.colorIndex(i)];
+        ctx.fill();
+        ctx.stroke();
+      }
+      return;
+    }
+
+    const image = ctx.createImageData(size.x, size.y);
+    const pixels = new Uint32Array(image.data.buffer);
+    const r2 = STAMP_RADIUS * STAMP_RADIUS;
+
+    for (let i = 0; i < this.points.length; i++) {
+      if (!this.isVisible(i)) continue;
+      const cx = Math.round(this.mercatorX[i] * scale - originX);
+      const cy = Math.round(this.mercatorY[i] * scale - originY);
+      if (cx < -STAMP_RADIUS || cy < -STAMP_RADIUS || cx >= size.x + STAMP_RADIUS || cy >= size.y + STAMP_RADIUS) continue;
+
+      const color = this.packedColors[this.colorIndex(i)];
+      for (let dy = -STAMP_RADIUS; dy <= STAMP_RADIUS; dy++) {
+        const py = cy + dy;
+        if (py < 0 || py >= size.y) continue;
+        for (let dx = -STAMP_RADIUS; dx <= STAMP_RADIUS; dx++) {
+          const px = cx + dx;
+          if (px < 0 || px >= size.x || dx * dx + dy * dy > r2) continue;
+          pixels[py * size.x + px] = color;
+        }
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+
+  /** The visible point nearest a container pixel, within the click tolerance. */
+  pointAtContainerPoint(point: L.Point): number | null {
+    const map = this._map;
+    if (!map) return null;
+
+    const { scale, originX, originY } = this.viewTransform(map);
+    const radius = (this.visibleCount <= OUTLINE_LIMIT ? OUTLINE_RADIUS : STAMP_RADIUS) + CLICK_TOLERANCE;
+    let nearest: number | null = null;
+    let nearestDistance = radius * radius;
+
+    for (let i = 0; i < this.points.length; i++) {
+      if (!this.isVisible(i)) continue;
+      const dx = this.mercatorX[i] * scale - originX - point.x;
+      const dy = this.mercatorY[i] * scale - originY - point.y;
+      const distance = dx * dx + dy * dy;
+      if (distance <= nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  protected handleClick(event: L.LeafletMouseEvent): void {
+    const index = this.pointAtContainerPoint(event.containerPoint);
+    if (index !== null) this.selectPoint(index);
+  }
+}
@@ -0,0 +1,167 @@
+import L from "leaflet";
+import {
+  CLICK_TOLERANCE,
+  OUTLINE_RADIUS,
+  ProjectedPointsLayer,
+  type ViewTransform,
+} from "@/lib/point-canvas-layer";
+
+// Points closer than this many screen pixels at the current zoom share a cluster
+const CLUSTER_CELL_PX = 60;
+
+// Clusters of mixed colours are coloured by size, as with Leaflet.markercluster
+const SIZE_COLORS: [number, string][] = [
+  [100, "#6ecc39"],
+  [1000, "#f0c20c"],
+  [Infinity, "#f18017"],
+];
+
+interface Cluster {
+  count: number;
+  // Mean position of the members, in normalised Web Mercator
+  x: number;
+  y: number;
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+  // Colour shared by every member, or null for a mix
+  color: string | null;
+  // First member - the point shown for a cluster of one
+  first: number;
+}
+
+function clusterRadius(count: number): number {
+  return count === 1 ? OUTLINE_RADIUS : 12 + Math.log10(count) * 5;
+}
+
+function formatCount(count: number): string {
+  if (count >= 1e6) return `${(count / 1e6).toFixed(count >= 1e7 ? 0 : 1)}M`;
+  if (count >= 1e4) return `${Math.round(count / 1e3)}k`;
+  return count.toLocaleString();
+}
+
+/**
+ * Visible points merged into one labelled circle per screen cell, regrouped
+ * whenever the zoom changes. Clicking a cluster zooms into it; a cluster of
+ * one behaves like a plain point.
+ */
+export class PointClusterLayer extends ProjectedPointsLayer {
+  // Clusters per integer zoom, built on first use until the data changes
+  private clustersByZoom = new Map<number, Cluster[]>();
+
+  protected dataChanged(): void {
+    this.clustersByZoom.clear();
+  }
+
+  private clustersAt(zoom: number): Cluster[] {
+    const cached = this.clustersByZoom.get(zoom);
+    if (cached) return cached;
+
+    const cellsPerSide = Math.ceil((256 * Math.pow(2, zoom)) / CLUSTER_CELL_PX);
+    const cells = new Map<number, Cluster>();
+
+    for (let i = 0; i < this.points.length; i++) {
+      if (!this.isVisible(i)) continue;
+      const x = this.mercatorX[i];
+      const y = this.mercatorY[i];
+      const latitude = this.points.latitude[i];
+      const longitude = this.points.longitude[i];
+      const color = this.colors[this.colorIndex(i)];
+      const key = Math.floor(y * cellsPerSide) * cellsPerSide + Math.floor(x * cellsPerSide);
+
+      const cluster = cells.get(key);
+      if (!cluster) {
+        cells.set(key, {
+          count: 1, x, y,
+          minLat: latitude, minLng: longitude, maxLat: latitude, maxLng: longitude,
+          color, first: i,
+        });
+        continue;
+      }
+
+      cluster.count++;
+      // Running mean keeps the circle over the members rather than the cell centre
+      cluster.x += (x - cluster.x) / cluster.count;
+      cluster.y += (y - cluster.y) / cluster.count;
+      if (latitude < cluster.minLat) cluster.minLat = latitude;
+      if (latitude > cluster.maxLat) cluster.maxLat = latitude;
+      if (longitude < cluster.minLng) cluster.minLng = longitude;
+      if (longitude > cluster.maxLng) cluster.maxLng = longitude;
+      if (cluster.color !== color) cluster.color = null;
+    }
+
+    const clusters = Array.from(cells.values());
+    this.clustersByZoom.set(zoom, clusters);
+    return clusters;
+  }
+
+  private clusterColor(cluster: Cluster): string {
+    if (cluster.color) return cluster.color;
+    return SIZE_COLORS.find(([limit]) => cluster.count < limit)![1];
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D, size: L.Point, { scale, originX, originY }: ViewTransform): void {
+    const clusters = this.clustersAt(Math.floor(this._map.getZoom()));
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = "bold 11px sans-serif";
+
+    for (const cluster of clusters) {
+      const radius = clusterRadius(cluster.count);
+      const x = cluster.x * scale - originX;
+      const y = cluster.y * scale - originY;
+      if (x < -radius || y < -radius || x > size.x + radius || y > size.y + radius) continue;
+
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.globalAlpha = 0.8;
+      ctx.fillStyle = this.clusterColor(cluster);
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = "#fff";
+      ctx.lineWidth = cluster.count === 1 ? 1 : 2;
+      ctx.stroke();
+
+      if (cluster.count > 1) {
+        ctx.fillStyle = "#fff";
+        ctx.fillText(formatCount(cluster.count), x, y);
+      }
+    }
+  }
+
+  protected handleClick(event: L.LeafletMouseEvent): void {
+    const map = this._map;
+    if (!map) return;
+
+    const { scale, originX, originY } = this.viewTransform(map);
+    const hit = this.clustersAt(Math.floor(map.getZoom())).find(cluster => {
+      const radius = clusterRadius(cluster.count) + CLICK_TOLERANCE;
+      const dx = cluster.x * scale - originX - event.containerPoint.x;
+      const dy = cluster.y * scale - originY - event.containerPoint.y;
+      return dx * dx + dy * dy <= radius * radius;
+    });
+    if (!hit) return;
+
+    if (hit.count === 1) {
+      this.selectPoint(hit.first);
+    } else if (hit.minLat === hit.maxLat && hit.minLng === hit.maxLng) {
+      // Zooming in can never split points at the very same spot
+      L.popup()
+        .setLatLng([hit.minLat, hit.minLng])
+        .setContent(`
+          <div class="text-xs">
+            <div class="font-semibold mb-1">${hit.count.toLocaleString()} points at this location</div>
+            <div class="font-mono text-xs space-y-0.5">
+              <div>Lat: ${hit.minLat.toFixed(6)}</div>
+              <div>Lng: ${hit.minLng.toFixed(6)}</div>
+            </div>
+          </div>
+        `)
+        .openOn(map);
+    } else {
+      map.flyToBounds([[hit.minLat, hit.minLng], [hit.maxLat, hit.maxLng]], { padding: [40, 40] });
+    }
+  }
+}
@@ -1,30 +1,178 @@
-import { useState, useRef } from "react";
-import { CSVPoint, Polygon } from "@shared/schema";
+import { useState, useRef, useMemo, useEffect } from "react";
+import { Polygon, type TileSourceSummary } from "@shared/schema";
+import { columnNumbers, emptyPointTable, findColumn, groupIds, type PointTable } from "@shared/point-table";
 import { FileUpload } from "@/components/file-upload";
 import { ControlPanel } from "@/components/control-panel";
 import { MapView } from "@/components/map-view";
-import { DataTable } from "@/components/data-table";
+import { DataTable, type TableSelection } from "@/components/data-table";
+import { FeatureInspector, type FeatureBounds, type InspectedFeature } from "@/components/feature-inspector";
 import { MapLegend } from "@/components/map-legend";
+import { HeatmapSettings } from "@/components/heatmap-settings";
+import { StyleEditor, type StyleField } from "@/components/style-editor";
+import { BasemapSwitcher } from "@/components/basemap-switcher";
+import { DEFAULT_HEATMAP_RADIUS } from "@/lib/heatmap-layer";
+import {
+  DEFAULT_BASEMAP,
+  fetchLocalTileSources,
+  loadBasemap,
+  saveBasemap,
+  type BasemapSelection,
+} from "@/lib/basemaps";
+import {
+  DEFAULT_LAYER_STYLE,
+  classifyPoints,
+  classifyPolygons,
+  isNumericValues,
+  type LayerStyle,
+} from "@/lib/classification";
 import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Background3D } from "@/components/background-3d";
 
 export default function MapPage() {
-  const [points, setPoints] = useState<CSVPoint[]>([]);
+  const [points, setPoints] = useState<PointTable>(emptyPointTable);
+  // True while a file is streaming in - points holds what has arrived so far
+  const [isLoadingPoints, setIsLoadingPoints] = useState(false);
   const [polygons, setPolygons] = useState<Polygon[]>([]);
+  // Row indices of the points the last generation left out as outliers
+  const [outliers, setOutliers] = useState<Uint32Array>(() => new Uint32Array(0));
   const [concavity, setConcavity] = useState(2);
   const [padding, setPadding] = useState(0.2);
+  // Column points are grouped by - polygons, legend and filter all follow it
+  const [groupField, setGroupField] = useState("");
+  // The file had no column that looked like a group - clustering is suggested
+  const [groupColumnMissing, setGroupColumnMissing] = useState(false);
+  const [pointStyle, setPointStyle] = useState<LayerStyle>(DEFAULT_LAYER_STYLE);
+  const [polygonStyle, setPolygonStyle] = useState<LayerStyle>(DEFAULT_LAYER_STYLE);
+  const [sourceCrs, setSourceCrs] = useState<string | null>(null);
   const [showPoints, setShowPoints] = useState(true);
   const [showPolygons, setShowPolygons] = useState(true);
+  const [showClusters, setShowClusters] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapRadius, setHeatmapRadius] = useState(DEFAULT_HEATMAP_RADIUS);
+  const [heatmapWeightField, setHeatmapWeightField] = useState<string | null>(null);
   const [selectedGroupIds, setSelectedGroupIds] = useState<Set<string>>(new Set());
+  const [basemap, setBasemap] = useState<BasemapSelection>(() => loadBasemap() ?? DEFAULT_BASEMAP);
+  const [localTileSources, setLocalTileSources] = useState<TileSourceSummary[]>([]);
+  const [inspected, setInspected] = useState<InspectedFeature | null>(null);
+  const [zoomTarget, setZoomTarget] = useState<FeatureBounds | null>(null);
+  const [tableSelection, setTableSelection] = useState<TableSelection | null>(null);
   const [leftPanelOpen, setLeftPanelOpen] = useState(true);
   const [rightPanelOpen, setRightPanelOpen] = useState(false);
   
   const sidebarRef = useRef<HTMLElement>(null);
 
-  // Get unique group IDs from polygons (after generation)
-  const uniqueGroupIds = Array.from(new Set(polygons.map(p => p.groupId)));
+  // Local archives are the default when there are any, so an offline server
+  // shows its own tiles without anyone picking them
+  useEffect(() => {
+    let cancelled = false;
+    fetchLocalTileSources().then(sources => {
+      if (cancelled) return;
+      setLocalTileSources(sources);
+
+      const saved = loadBasemap();
+      if (!saved && sources.length > 0) {
+        setBasemap({ kind: "local", source: sources[0] });
+      } else if (saved?.kind === "local") {
+        // Use the server's current details, or drop an archive it no longer has
+        const source = sources.find(s => s.id === saved.source.id);
+        setBasemap(source ? { kind: "local", source } : DEFAULT_BASEMAP);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleBasemapChange = (selection: BasemapSelection) => {
+    setBasemap(selection);
+    saveBasemap(selection);
+  };
+
+  // Indices into the old points (or the old polygons) mean nothing after a reload
+  useEffect(() => {
+    setInspected(null);
+    setTableSelection(null);
+    setOutliers(new Uint32Array(0));
+  }, [points]);
+
+  useEffect(() => {
+    setInspected(current => (current?.kind === "polygon" ? null : current));
+  }, [polygons]);
+
+  const handleSelectInTable = (label: string, indices: number[]) => {
+    setTableSelection({ label, indices });
+    setRightPanelOpen(true);
+  };
+
+  const columnNames = useMemo(() => points.columns.map(column => column.name), [points]);
+
+  // Fall back to the first column when the group column chosen on upload (or
+  // the one picked for a previous file) isn't among the loaded columns
+  useEffect(() => {
+    if (columnNames.length > 0 && !columnNames.includes(groupField)) {
+      setGroupField(columnNames[0]);
+    }
+  }, [columnNames, groupField]);
+
+  const handleGroupFieldChange = (field: string) => {
+    setGroupField(field);
+    setSelectedGroupIds(new Set());
+  };
+
+  // Groups present in the loaded points, in order of first appearance
+  const uniqueGroupIds = useMemo(() => {
+    if (points.length === 0) return [];
+    const column = findColumn(points, groupField);
+    const ids = groupIds(column);
+    if (!column) return ids;
+
+    const present = new Uint8Array(ids.length);
+    for (let i = 0; i < points.length; i++) {
+      present[column.codes[i]] = 1;
+    }
+    return ids.filter((_, code) => present[code]);
+  }, [points, groupField]);
+
+  // What points and polygons can be coloured by
+  const pointFields = useMemo<StyleField[]>(
+    () => points.columns.map(column => ({ name: column.name, numeric: columnNumbers(column) !== null })),
+    [points]
+  );
+  const polygonFields = useMemo<StyleField[]>(() => {
+    const names = Array.from(new Set(polygons.flatMap(polygon => Object.keys(polygon.properties ?? {}))));
+    return names.map(name => ({
+      name,
+      numeric: isNumericValues(polygons.map(polygon => polygon.properties?.[name])),
+    }));
+  }, [polygons]);
+
+  // Columns the heatmap can be weighted by
+  const numericColumns = useMemo(
+    () => pointFields.filter(field => field.numeric).map(field => field.name),
+    [pointFields]
+  );
+
+  // Colouring by group gives the same colour to a group's points and polygon
+  const pointClassification = useMemo(
+    () => classifyPoints(points, uniqueGroupIds, pointStyle),
+    [points, uniqueGroupIds, pointStyle]
+  );
+  const polygonClassification = useMemo(
+    () => classifyPolygons(polygons, uniqueGroupIds, polygonStyle),
+    [polygons, uniqueGroupIds, polygonStyle]
+  );
+
+  // Legend swatches for the groups come from whichever layer is coloured by group
+  const groupColorOf = pointStyle.field === null
+    ? pointClassification.colorOf
+    : polygonStyle.field === null ? polygonClassification.colorOf : null;
+  // Layers coloured by an attribute get a legend section of their own
+  const legendClassifications = [
+    { title: "Points", classification: pointClassification },
+    ...(polygons.length > 0 ? [{ title: "Polygons", classification: polygonClassification }] : []),
+  ].filter(({ classification }) => classification.field !== null);
 
   return (
     <div className="flex h-screen w-full overflow-hidden bg-background">
@@ -65,9 +213,22 @@ export default function MapPage() {
                 >
                   <FileUpload
                     onPointsLoaded={setPoints}
+                    onPointsStreamed={setPoints}
+                    onLoadingChange={setIsLoadingPoints}
                     onError={(error: string) => console.error(error)}
+                    onColumnsDetected={(columns) => {
+                      if (columns.group) handleGroupFieldChange(columns.group);
+                      setGroupColumnMissing(!columns.group);
+                    }}
+                    onCrsDetected={setSourceCrs}
                     onClearData={() => {
+                      setSourceCrs(null);
+                      setGroupColumnMissing(false);
+                      setHeatmapWeightField(null);
+                      setPointStyle(DEFAULT_LAYER_STYLE);
+                      setPolygonStyle(DEFAULT_LAYER_STYLE);
                       setPolygons([]);
+                      setOutliers(new Uint32Array(0));
                       setSelectedGroupIds(new Set());
                     }}
                   />
@@ -80,16 +241,26 @@ export default function MapPage() {
                 >
                   <ControlPanel
                     points={points}
+                    loading={isLoadingPoints}
                     concavity={concavity}
                     onConcavityChange={setConcavity}
-                    onPolygonsGenerated={setPolygons}
+                    onPolygonsGenerated={(generated, removed) => {
+                      setPolygons(generated);
+                      setOutliers(removed);
+                    }}
+                    onPointsClustered={setPoints}
+                    groupColumnMissing={groupColumnMissing}
                     polygons={polygons}
                     onResetState={() => {
                       setPolygons([]);
+                      setOutliers(new Uint32Array(0));
                       setSelectedGroupIds(new Set());
                     }}
                     padding={padding}
                     onPaddingChange={setPadding}
+                    groupField={groupField}
+                    onGroupFieldChange={handleGroupFieldChange}
+                    sourceCrs={sourceCrs}
                   />
                 </motion.div>
               </div>
@@ -146,6 +317,49 @@ export default function MapPage() {
             >
               Polygons
             </Button>
+            <Button
+              size="sm"
+              variant={showClusters ? "secondary" : "ghost"}
+              onClick={() => setShowClusters(!showClusters)}
+              className="toggle-elevate"
+              data-state={showClusters ? "on" : "off"}
+              data-testid="button-layer-clusters"
+            >
+              Clusters
+            </Button>
+            <Button
+              size="sm"
+              variant={showHeatmap ? "secondary" : "ghost"}
+              onClick={() => setShowHeatmap(!showHeatmap)}
+              className="toggle-elevate"
+              data-state={showHeatmap ? "on" : "off"}
+              data-testid="button-layer-heatmap"
+            >
+              Heatmap
+            </Button>
+            <StyleEditor
+              groupField={groupField}
+              pointFields={pointFields}
+              polygonFields={polygonFields}
+              pointStyle={pointStyle}
+              onPointStyleChange={setPointStyle}
+              polygonStyle={polygonStyle}
+              onPolygonStyleChange={setPolygonStyle}
+            />
+            <BasemapSwitcher
+              basemap={basemap}
+              onBasemapChange={handleBasemapChange}
+              localSources={localTileSources}
+            />
+            {showHeatmap && (
+              <HeatmapSettings
+                radius={heatmapRadius}
+                onRadiusChange={setHeatmapRadius}
+                weightField={heatmapWeightField}
+                onWeightFieldChange={setHeatmapWeightField}
+                numericColumns={numericColumns}
+              />
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -176,18 +390,53 @@ export default function MapPage() {
         <div className="flex-1 relative">
           <MapView
             points={points}
+            loading={isLoadingPoints}
             polygons={polygons}
             showPoints={showPoints}
             showPolygons={showPolygons}
+            groupField={groupField || null}
+            pointClassification={pointClassification}
+            polygonClassification={polygonClassification}
+            showClusters={showClusters}
+            showHeatmap={showHeatmap}
+            heatmapRadius={heatmapRadius}
+            heatmapWeightField={heatmapWeightField}
             selectedGroupIds={selectedGroupIds}
+            outliers={outliers}
+            basemap={basemap}
+            onPointClick={(index) => setInspected({ kind: "point", index })}
+            onPolygonClick={(polygon) => setInspected({ kind: "polygon", polygon })}
+            inspected={inspected}
+            zoomTarget={zoomTarget}
           />
 
+          {/* Inspector Overlay */}
+          {inspected && (
+            <div className="absolute top-4 right-4 bottom-4 z-[1000] flex flex-col pointer-events-none">
+              <div className="pointer-events-auto max-h-[60%] flex">
+                <FeatureInspector
+                  feature={inspected}
+                  points={points}
+                  groupField={groupField}
+                  onInspect={setInspected}
+                  onZoomTo={setZoomTarget}
+                  onSelectInTable={handleSelectInTable}
+                  onClose={() => setInspected(null)}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Legend Overlay */}
           {uniqueGroupIds.length > 0 && (
             <div className="absolute bottom-4 right-4 z-[1000]">
               <MapLegend
+                title={groupField}
                 groupIds={uniqueGroupIds}
+                groupColorOf={groupColorOf}
+                classifications={legendClassifications}
                 selectedGroupIds={selectedGroupIds}
+                outlierCount={showPoints || showClusters ? outliers.length : 0}
                 onToggleGroup={(groupId: string) => {
                   const newSelected = new Set(selectedGroupIds);
                   if (newSelected.has(groupId)) {
@@ -210,7 +459,12 @@ export default function MapPage() {
           className="w-96 transition-all duration-200 border-l border-white/5 bg-slate-900/40 backdrop-blur-2xl flex flex-col overflow-hidden z-20"
           data-testid="sidebar-right"
         >
-          <DataTable points={points} />
+          <DataTable
+            points={points}
+            selection={tableSelection}
+            onClearSelection={() => setTableSelection(null)}
+            onRowClick={(index) => setInspected({ kind: "point", index })}
+          />
         </aside>
       )}
     </div>
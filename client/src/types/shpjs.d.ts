@@ -0,0 +1,13 @@
+declare module 'shpjs' {
+  interface FeatureCollectionWithFilename {
+    type: 'FeatureCollection';
+    features: any[];
+    fileName?: string;
+  }
+
+  // Zipped shapefiles are reprojected to WGS84 when they include a .prj
+  export function parseZip(
+    buffer: ArrayBuffer | Uint8Array,
+    whiteList?: string[]
+  ): Promise<FeatureCollectionWithFilename | FeatureCollectionWithFilename[]>;
+}
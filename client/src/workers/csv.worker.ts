@@ -1,27 +1,76 @@
 /// <reference lib="webworker" />
 
 import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import {
+    createValidationStats,
+    detectColumns,
+    finishValidationStats,
+    hasCoordinateColumns,
+    parseRow,
+    recordRow,
+    type DetectedColumns,
+    type RejectedRow,
+    type ValidationStats,
+} from '@shared/csv-parsing';
+import { createTransform, WGS84, type Transform } from '@shared/crs';
+import { PointTableBuilder, pointTableTransferables, type PointTable } from '@shared/point-table';
+
+// '' lets Papa auto-detect the delimiter
+export type CSVDelimiter = '' | ',' | ';' | '\t' | '|';
+export type CSVEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-1';
+
+export interface CSVParseOptions {
+    delimiter: CSVDelimiter;
+    encoding: CSVEncoding;
+    sheet?: string; // Excel only - defaults to the first sheet
+}
 
 export interface CSVWorkerMessage {
     type: 'parse';
     file: File;
+    format?: 'csv' | 'excel';
+    options?: CSVParseOptions;
+}
+
+// Sent after the 'columns' message to confirm (or override) the detected
+// columns and parse the whole file. Sent again with swap: true to reload the
+// file with longitude and latitude exchanged after a suggested swap.
+export interface CSVWorkerMapping {
+    type: 'mapping';
+    columns: DetectedColumns;
+    crs?: string; // Coordinate system of the x/y columns - defaults to WGS84
+    swap?: boolean;
+}
+
+export interface CSVWorkerColumns {
+    type: 'columns';
+    columns: string[];
+    preview: Record<string, any>[];
+    detectedColumns: DetectedColumns;
 }
 
+// Progress is measured in bytes of the file read so far, so it is accurate
+// whatever the row count. Excel sheets are read whole, so there it is
+// estimated from the rows processed.
 export interface CSVWorkerProgress {
     type: 'progress';
     rowsProcessed: number;
-    points: CSVPoint[];
+    bytesProcessed: number;
+    totalBytes: number;
 }
 
+// Points are all sent in 'chunk' messages before this
 export interface CSVWorkerComplete {
     type: 'complete';
-    points: CSVPoint[];
-    errors: string[];
-    detectedColumns: {
-        longitude: string | null;
-        latitude: string | null;
-        group: string | null;
-    };
+    errors: string[]; // First 10 error messages, for display
+    stats: ValidationStats;
+    rejected: RejectedRow[]; // Every rejected row with its values as read
+    columns: string[]; // Header row, so rejected rows can be written back out
+    detectedColumns: DetectedColumns;
+    crs?: string; // Source coordinate system the points were reprojected from
+    sheetNames?: string[]; // Excel only - every sheet in the workbook
+    sheet?: string; // Excel only - the sheet that was parsed
 }
 
 export interface CSVWorkerError {
@@ -29,9 +78,10 @@ export interface CSVWorkerError {
     message: string;
 }
 
+// Each chunk's table owns its buffers and is posted with them as Transferables
 export interface CSVWorkerChunk {
     type: 'chunk';
-    points: CSVPoint[];
+    table: PointTable;
     rowsProcessed: number;
 }
 
@@ -42,292 +92,168 @@ export interface CSVPoint {
     [key: string]: any;
 }
 
+const CHUNK_SIZE = 25000; // Send data to main thread every 25k rows
+const PREVIEW_ROWS = 10; // Rows shown in the column mapping step
+const PARSE_CHUNK_BYTES = 1024 * 1024; // Read 1MB at a time so progress moves smoothly
+const EXCEL_PROGRESS_ROWS = 10000; // Excel progress is reported every 10k rows
+
 let rowIndex = 0;
-let pointsBuffer: CSVPoint[] = [];
+let pointsBuffer = new PointTableBuilder(CHUNK_SIZE);
 let errorsBuffer: string[] = [];
-const CHUNK_SIZE = 25000; // Send data to main thread every 25k rows
 
-// Detected column names (set during first row processing)
-let detectedLonCol: string | null = null;
-let detectedLatCol: string | null = null;
-let detectedGroupCol: string | null = null;
-let columnsDetected = false;
-
-// Column name patterns for flexible matching
-const LONGITUDE_PATTERNS = [
-    /^lon$/i, /^lng$/i, /^long$/i, /^longitude$/i,
-    /^x$/i, /^xcoord$/i, /^x_coord$/i, /^x-coord$/i,
-    /^easting$/i, /^east$/i,
-    /lon/i, /lng/i, /long/i,
-    /^coord.*x/i, /x.*coord/i,
-];
-
-const LATITUDE_PATTERNS = [
-    /^lat$/i, /^latitude$/i,
-    /^y$/i, /^ycoord$/i, /^y_coord$/i, /^y-coord$/i,
-    /^northing$/i, /^north$/i,
-    /lat/i,
-    /^coord.*y/i, /y.*coord/i,
-];
-
-const GROUP_PATTERNS = [
-    // Only look for explicitly named group columns
-    /^activitygroupid$/i, /^activity_group_id$/i, /^activitygroup$/i,
-    /^groupid$/i, /^group_id$/i, /^group$/i,
-    /^category$/i, /^class$/i, /^type$/i,
-    /^zone$/i, /^region$/i, /^area$/i,
-    /^district$/i, /^sector$/i, /^cluster$/i,
-];
-
-function findMatchingColumn(columns: string[], patterns: RegExp[]): string | null {
-    // Try exact matches first (patterns at the start of the list are more specific)
-    for (const pattern of patterns) {
-        for (const col of columns) {
-            if (pattern.test(col)) {
-                return col;
-            }
+// Column names confirmed by the mapping step
+let detectedColumns: DetectedColumns = { longitude: null, latitude: null, group: null };
+let crs = WGS84;
+let transform: Transform | null = null;
+let swap = false;
+let stats = createValidationStats();
+let rejectedBuffer: RejectedRow[] = [];
+let fileColumns: string[] = [];
+
+// The file waiting for its column mapping to be confirmed. It is kept after
+// parsing so the mapping can be sent again with the coordinates swapped.
+let pendingParse: { file: File; format: 'csv' | 'excel'; options: CSVParseOptions } | null = null;
+
+// Excel sheets are read in one go, so keep the rows between the two steps
+let excelRows: Record<string, any>[] = [];
+let excelSheetNames: string[] = [];
+let excelSheet: string | undefined;
+
+function processRow(row: Record<string, any>): void {
+    const result = parseRow(row, detectedColumns, rowIndex, { transform, swap });
+    recordRow(stats, result);
+
+    // Skip invalid rows but continue processing others
+    if (result.error !== undefined) {
+        if (errorsBuffer.length < 10) { // Only log first 10 errors in detail
+            errorsBuffer.push(result.error);
         }
+        rejectedBuffer.push({ row: rowIndex + 1, reason: result.reason, error: result.error, values: row });
+        rowIndex++;
+        return;
     }
-    return null;
-}
-
-function detectColumns(row: Record<string, any>): void {
-    const columns = Object.keys(row);
 
-    // Detect longitude column (REQUIRED)
-    detectedLonCol = findMatchingColumn(columns, LONGITUDE_PATTERNS);
+    pointsBuffer.append(result.point);
+    rowIndex++;
 
-    // Detect latitude column (REQUIRED)
-    detectedLatCol = findMatchingColumn(columns, LATITUDE_PATTERNS);
-
-    // Detect group column (OPTIONAL - skip coordinate columns)
-    const nonCoordColumns = columns.filter(col =>
-        col !== detectedLonCol && col !== detectedLatCol
-    );
-    detectedGroupCol = findMatchingColumn(nonCoordColumns, GROUP_PATTERNS);
-    // If no group column found, just use null (will default to "default" value)
-    // All other columns are preserved as extra properties
+    // Send chunk to main thread if buffer is large enough
+    if (pointsBuffer.length >= CHUNK_SIZE) {
+        postChunk();
+    }
+}
 
-    columnsDetected = true;
-    console.log('[CSV Worker] Detected columns:', {
-        longitude: detectedLonCol,
-        latitude: detectedLatCol,
-        group: detectedGroupCol
-    });
+// Transfer the buffered points to the main thread rather than copying them
+function postChunk(): void {
+    const table = pointsBuffer.build();
+    self.postMessage({
+        type: 'chunk',
+        table,
+        rowsProcessed: rowIndex,
+    } as CSVWorkerChunk, pointTableTransferables(table));
+    pointsBuffer = new PointTableBuilder(CHUNK_SIZE); // Clear buffer after sending
 }
 
-function getColumnValue(row: Record<string, any>, detectedCol: string | null): any {
-    if (detectedCol && row[detectedCol] !== undefined) {
-        return row[detectedCol];
-    }
-    return undefined;
+function postProgress(bytesProcessed: number, totalBytes: number): void {
+    self.postMessage({
+        type: 'progress',
+        rowsProcessed: rowIndex,
+        bytesProcessed: Math.min(bytesProcessed, totalBytes),
+        totalBytes,
+    } as CSVWorkerProgress);
 }
 
-function parseCoordinate(value: any): number | null {
-    if (value === undefined || value === null || value === '') {
-        return null;
+function finish(extra: Partial<CSVWorkerComplete> = {}): void {
+    // Send any remaining points
+    if (pointsBuffer.length > 0) {
+        postChunk();
     }
 
-    // Convert to string and normalize
-    let strValue = String(value).trim();
-
-    // Handle common locale formats:
-    // - European format: "1.234,56" -> "1234.56"
-    // - Spaces as thousands separator: "1 234.56" -> "1234.56"
-    // - Comma as decimal: "1234,56" -> "1234.56"
-
-    // Remove spaces
-    strValue = strValue.replace(/\s/g, '');
+    // Send complete message with detected columns info
+    self.postMessage({
+        type: 'complete',
+        errors: errorsBuffer,
+        stats: finishValidationStats(stats),
+        rejected: rejectedBuffer,
+        columns: fileColumns,
+        detectedColumns,
+        crs,
+        ...extra,
+    } as CSVWorkerComplete);
+}
 
-    // If there's both comma and period, determine which is decimal
-    const hasComma = strValue.includes(',');
-    const hasPeriod = strValue.includes('.');
+/**
+ * Read one sheet of an .xlsx/.xls workbook. Cells are read as their formatted
+ * text so values reach parseRow exactly as they would from a CSV.
+ */
+async function readExcel(file: File, sheet?: string): Promise<void> {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    excelSheetNames = workbook.SheetNames;
+    excelSheet = sheet && excelSheetNames.includes(sheet) ? sheet : excelSheetNames[0];
+
+    if (!excelSheet) {
+        throw new Error('Workbook has no sheets');
+    }
 
-    if (hasComma && hasPeriod) {
-        // Both present - assume the last one is decimal separator
-        const lastComma = strValue.lastIndexOf(',');
-        const lastPeriod = strValue.lastIndexOf('.');
+    excelRows = XLSX.utils.sheet_to_json<Record<string, any>>(workbook.Sheets[excelSheet], {
+        defval: '',
+        raw: false,
+        blankrows: false,
+    });
+}
 
-        if (lastComma > lastPeriod) {
-            // Comma is decimal separator (European format: 1.234,56)
-            strValue = strValue.replace(/\./g, '').replace(',', '.');
-        } else {
-            // Period is decimal separator (US format: 1,234.56)
-            strValue = strValue.replace(/,/g, '');
-        }
-    } else if (hasComma && !hasPeriod) {
-        // Only comma - could be decimal separator
-        // Check if it's likely a thousands separator (more than 3 digits after comma)
-        const parts = strValue.split(',');
-        if (parts.length === 2 && parts[1].length <= 3) {
-            // Likely decimal separator
-            strValue = strValue.replace(',', '.');
-        } else {
-            // Likely thousands separator
-            strValue = strValue.replace(/,/g, '');
-        }
+/**
+ * Read the header and first rows so the user can confirm which columns hold
+ * the coordinates before the whole file is parsed.
+ */
+async function readPreview(file: File, format: 'csv' | 'excel', options: CSVParseOptions) {
+    if (format === 'excel') {
+        await readExcel(file, options.sheet);
+        return { columns: Object.keys(excelRows[0] ?? {}), preview: excelRows.slice(0, PREVIEW_ROWS) };
     }
 
-    const num = Number(strValue);
-    return Number.isFinite(num) ? num : null;
+    return new Promise<{ columns: string[]; preview: Record<string, any>[] }>((resolve, reject) => {
+        Papa.parse<Record<string, any>>(file, {
+            header: true,
+            dynamicTyping: false,
+            skipEmptyLines: true,
+            preview: PREVIEW_ROWS,
+            delimiter: options.delimiter,
+            encoding: options.encoding,
+            worker: false,
+            complete: (results) => resolve({ columns: results.meta.fields ?? [], preview: results.data }),
+            error: reject,
+        });
+    });
 }
 
-self.onmessage = async (event: MessageEvent<CSVWorkerMessage>) => {
-    const { type, file } = event.data;
-
-    if (type !== 'parse') {
+function parseFile(file: File, format: 'csv' | 'excel', options: CSVParseOptions): void {
+    if (format === 'excel') {
+        excelRows.forEach((row, index) => {
+            processRow(row);
+            if ((index + 1) % EXCEL_PROGRESS_ROWS === 0) {
+                postProgress(Math.round(file.size * (index + 1) / excelRows.length), file.size);
+            }
+        });
+        finish({ sheetNames: excelSheetNames, sheet: excelSheet });
         return;
     }
 
-    // Reset state
-    rowIndex = 0;
-    pointsBuffer = [];
-    errorsBuffer = [];
-    detectedLonCol = null;
-    detectedLatCol = null;
-    detectedGroupCol = null;
-    columnsDetected = false;
-
     Papa.parse(file, {
         header: true,
         dynamicTyping: false,
         skipEmptyLines: true,
+        delimiter: options.delimiter,
+        encoding: options.encoding,
         worker: false, // We're already in a worker
-        chunk: (results, parser) => {
+        chunkSize: PARSE_CHUNK_BYTES,
+        chunk: (results) => {
             // Process chunk of rows
-            results.data.forEach((row: any) => {
-                // Detect columns on first row
-                if (!columnsDetected) {
-                    detectColumns(row);
-
-                    // Check if we have required columns
-                    if (!detectedLonCol || !detectedLatCol) {
-                        const availableCols = Object.keys(row).join(', ');
-                        errorsBuffer.push(
-                            `Could not detect coordinate columns. ` +
-                            `Available columns: ${availableCols}. ` +
-                            `Please ensure your CSV has columns for longitude (e.g., lon, lng, longitude, x) ` +
-                            `and latitude (e.g., lat, latitude, y).`
-                        );
-                    }
-                }
-
-                // Skip if we couldn't detect coordinate columns
-                if (!detectedLonCol || !detectedLatCol) {
-                    rowIndex++;
-                    return;
-                }
-
-                // Get coordinate values using detected columns
-                const longitudeRaw = getColumnValue(row, detectedLonCol);
-                const latitudeRaw = getColumnValue(row, detectedLatCol);
-                const groupRaw = getColumnValue(row, detectedGroupCol);
-
-                // Parse coordinates with locale-aware parsing
-                const longitude = parseCoordinate(longitudeRaw);
-                const latitude = parseCoordinate(latitudeRaw);
-
-                // Skip invalid rows but continue processing others
-                if (longitude === null || latitude === null) {
-                    if (rowIndex < 10) { // Only log first 10 errors in detail
-                        errorsBuffer.push(
-                            `Row ${rowIndex + 1}: Invalid coordinates ` +
-                            `(${detectedLonCol}="${longitudeRaw}", ${detectedLatCol}="${latitudeRaw}")`
-                        );
-                    }
-                    rowIndex++;
-                    return;
-                }
-
-                // Validate coordinate ranges
-                if (longitude < -180 || longitude > 180 || latitude < -90 || latitude > 90) {
-                    // Coords might be swapped - try to detect and fix
-                    if (latitude >= -180 && latitude <= 180 && longitude >= -90 && longitude <= 90) {
-                        // Looks like they're swapped
-                        const point: CSVPoint = {
-                            id: `point-${rowIndex}`,
-                            longitude: latitude, // Swap
-                            latitude: longitude, // Swap
-                            // Preserve all original columns from CSV
-                            ...Object.keys(row).reduce((acc, key) => {
-                                if (key !== detectedLonCol && key !== detectedLatCol) {
-                                    acc[key] = row[key];
-                                }
-                                return acc;
-                            }, {} as Record<string, any>)
-                        };
-                        pointsBuffer.push(point);
-                    } else if (rowIndex < 10) {
-                        errorsBuffer.push(
-                            `Row ${rowIndex + 1}: Coordinates out of range ` +
-                            `(lon=${longitude}, lat=${latitude})`
-                        );
-                    }
-                    rowIndex++;
-                    return;
-                }
-
-                // Create point with all CSV columns preserved
-                const point: CSVPoint = {
-                    id: `point-${rowIndex}`,
-                    longitude,
-                    latitude,
-                    // Include all original columns from the CSV (except lon/lat which are normalized)
-                    ...Object.keys(row).reduce((acc, key) => {
-                        // Skip only the coordinate columns we've already extracted
-                        if (key !== detectedLonCol && key !== detectedLatCol) {
-                            acc[key] = row[key];
-                        }
-                        return acc;
-                    }, {} as Record<string, any>)
-                };
-
-                pointsBuffer.push(point);
-                rowIndex++;
-
-                // Send chunk to main thread if buffer is large enough
-                if (pointsBuffer.length >= CHUNK_SIZE) {
-                    self.postMessage({
-                        type: 'chunk',
-                        points: pointsBuffer,
-                        rowsProcessed: rowIndex,
-                    } as CSVWorkerChunk);
-                    pointsBuffer = []; // Clear buffer after sending
-                }
-
-                // Report progress periodically
-                if (rowIndex % 10000 === 0) {
-                    self.postMessage({
-                        type: 'progress',
-                        rowsProcessed: rowIndex,
-                        points: [],
-                    } as CSVWorkerProgress);
-                }
-            });
-        },
-        complete: () => {
-            // Send any remaining points
-            if (pointsBuffer.length > 0) {
-                self.postMessage({
-                    type: 'chunk',
-                    points: pointsBuffer,
-                    rowsProcessed: rowIndex,
-                } as CSVWorkerChunk);
-                pointsBuffer = [];
-            }
-
-            // Send complete message with detected columns info
-            self.postMessage({
-                type: 'complete',
-                points: [], // Points already sent in chunks
-                errors: errorsBuffer,
-                detectedColumns: {
-                    longitude: detectedLonCol,
-                    latitude: detectedLatCol,
-                    group: detectedGroupCol,
-                },
-            } as CSVWorkerComplete);
+            results.data.forEach((row: any) => processRow(row));
+            // The cursor counts characters rather than bytes, so it can fall
+            // a little short on multi-byte text
+            postProgress(results.meta.cursor, file.size);
         },
+        complete: () => finish(),
         error: (error) => {
             self.postMessage({
                 type: 'error',
@@ -335,6 +261,67 @@ self.onmessage = async (event: MessageEvent<CSVWorkerMessage>) => {
             } as CSVWorkerError);
         },
     });
+}
+
+self.onmessage = async (event: MessageEvent<CSVWorkerMessage | CSVWorkerMapping>) => {
+    const message = event.data;
+
+    if (message.type === 'parse') {
+        const { file, format = 'csv', options = { delimiter: '', encoding: 'utf-8' } } = message;
+
+        try {
+            const { columns, preview } = await readPreview(file, format, options);
+            pendingParse = { file, format, options };
+            fileColumns = columns;
+
+            self.postMessage({
+                type: 'columns',
+                columns,
+                preview,
+                detectedColumns: detectColumns(columns, preview),
+            } as CSVWorkerColumns);
+        } catch (error: any) {
+            self.postMessage({
+                type: 'error',
+                message: `${format === 'excel' ? 'Excel' : 'CSV'} parsing error: ${error.message}`,
+            } as CSVWorkerError);
+        }
+        return;
+    }
+
+    if (message.type === 'mapping' && pendingParse) {
+        const { file, format, options } = pendingParse;
+
+        if (!hasCoordinateColumns(message.columns)) {
+            self.postMessage({
+                type: 'error',
+                message: 'Longitude and latitude columns (or a combined coordinate column) are required',
+            } as CSVWorkerError);
+            return;
+        }
+
+        try {
+            transform = createTransform(message.crs);
+        } catch (error: any) {
+            self.postMessage({
+                type: 'error',
+                message: error.message,
+            } as CSVWorkerError);
+            return;
+        }
+
+        // Reset state
+        rowIndex = 0;
+        pointsBuffer = new PointTableBuilder(CHUNK_SIZE);
+        errorsBuffer = [];
+        rejectedBuffer = [];
+        detectedColumns = message.columns;
+        crs = message.crs ?? WGS84;
+        swap = message.swap ?? false;
+        stats = createValidationStats(swap);
+
+        parseFile(file, format, options);
+    }
 };
 
 export { };
@@ -0,0 +1,308 @@
+/// <reference lib="webworker" />
+
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { parseZip } from 'shpjs';
+import {
+    createValidationStats,
+    detectColumns,
+    finishValidationStats,
+    recordRow,
+    type RejectedRow,
+} from '@shared/csv-parsing';
+import { createTransform, crsFromName, resolveCRS, WGS84 } from '@shared/crs';
+import { PointTableBuilder, pointTableTransferables } from '@shared/point-table';
+import type {
+    CSVPoint,
+    CSVWorkerChunk,
+    CSVWorkerComplete,
+    CSVWorkerError,
+} from './csv.worker';
+
+// Imports point layers from GIS formats and answers with the same chunk /
+// complete / error messages as the CSV worker, so FileUpload treats both alike.
+
+export type GISFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile';
+
+export interface GISWorkerMessage {
+    type: 'parse';
+    file: File;
+    format: GISFormat;
+}
+
+interface PointFeature {
+    coordinates: number[][];
+    properties: Record<string, any>;
+    geometryType: string;
+}
+
+interface FeatureLayer {
+    features: PointFeature[];
+    crs: string; // Coordinate system the file was written in
+}
+
+const CHUNK_SIZE = 25000; // Send data to main thread every 25k points
+
+// Geometry comes from the feature itself rather than a named column
+const GEOMETRY_COLUMN = 'geometry';
+
+/**
+ * Flatten feature properties into CSV-like passthrough fields. Nested values
+ * are stringified so every column holds a plain value.
+ */
+function toFields(properties: Record<string, any> | null | undefined): Record<string, any> {
+    const fields: Record<string, any> = {};
+    Object.entries(properties ?? {}).forEach(([key, value]) => {
+        if (['id', 'longitude', 'latitude'].includes(key)) return;
+        fields[key] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+    });
+    return fields;
+}
+
+/**
+ * GeoJSON is lon/lat by definition, but older files may name a projected CRS
+ * in the legacy "crs" member - those coordinates are reprojected here.
+ */
+function geoJSONToLayer(geojson: any): FeatureLayer {
+    const crs = crsFromName(geojson?.crs?.properties?.name) ?? WGS84;
+    const transform = createTransform(crs);
+    const features = geoJSONToFeatures(geojson);
+
+    if (transform) {
+        features.forEach(feature => {
+            feature.coordinates = feature.coordinates.map(([x, y]) => transform(x, y));
+        });
+    }
+    return { features, crs };
+}
+
+function geoJSONToFeatures(geojson: any): PointFeature[] {
+    const features: any[] =
+        geojson?.type === 'FeatureCollection' ? geojson.features ?? [] :
+        geojson?.type === 'Feature' ? [geojson] :
+        geojson?.type ? [{ type: 'Feature', geometry: geojson, properties: {} }] :
+        [];
+
+    return features.map(feature => {
+        const geometry = feature?.geometry;
+        return {
+            coordinates:
+                geometry?.type === 'Point' ? [geometry.coordinates] :
+                geometry?.type === 'MultiPoint' ? geometry.coordinates :
+                [],
+            properties: feature?.properties ?? {},
+            geometryType: geometry?.type ?? 'null',
+        };
+    });
+}
+
+const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    isArray: (name) => ['Placemark', 'Data', 'SimpleData', 'Point'].includes(name),
+});
+
+function collectPlacemarks(node: any, placemarks: any[]): void {
+    if (!node || typeof node !== 'object') return;
+    Object.entries(node).forEach(([key, value]) => {
+        if (key === 'Placemark') {
+            placemarks.push(...(value as any[]));
+        } else if (typeof value === 'object') {
+            collectPlacemarks(value, placemarks);
+        }
+    });
+}
+
+function textOf(value: any): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'object') return value['#text'] !== undefined ? String(value['#text']) : undefined;
+    return String(value);
+}
+
+function kmlToFeatures(kml: string): PointFeature[] {
+    const placemarks: any[] = [];
+    collectPlacemarks(xmlParser.parse(kml), placemarks);
+
+    return placemarks.map(placemark => {
+        const properties: Record<string, any> = {};
+        const name = textOf(placemark.name);
+        const description = textOf(placemark.description);
+        if (name !== undefined) properties.name = name;
+        if (description !== undefined) properties.description = description;
+
+        // <ExtendedData><Data name="..."><value>...</value></Data>
+        (placemark.ExtendedData?.Data ?? []).forEach((data: any) => {
+            properties[data['@_name']] = textOf(data.value) ?? '';
+        });
+        // <ExtendedData><SchemaData><SimpleData name="...">...</SimpleData>
+        const schemaData = [].concat(placemark.ExtendedData?.SchemaData ?? []);
+        schemaData.forEach((schema: any) => {
+            (schema.SimpleData ?? []).forEach((data: any) => {
+                properties[data['@_name']] = textOf(data) ?? '';
+            });
+        });
+
+        const points: any[] = placemark.Point ?? placemark.MultiGeometry?.Point ?? [];
+        const coordinates = points
+            .map(point => textOf(point.coordinates)?.trim().split(/\s+/)[0])
+            .filter((tuple): tuple is string => !!tuple)
+            .map(tuple => tuple.split(',').map(Number));
+
+        const geometryType =
+            placemark.Point ? 'Point' :
+            placemark.MultiGeometry ? 'MultiGeometry' :
+            Object.keys(placemark).find(key => /^(LineString|Polygon|LinearRing|Track|MultiTrack|Model)$/.test(key)) ?? 'null';
+
+        return { coordinates, properties, geometryType };
+    });
+}
+
+async function kmzToFeatures(buffer: ArrayBuffer): Promise<PointFeature[]> {
+    const zip = await JSZip.loadAsync(buffer);
+    const kmlFiles = Object.keys(zip.files).filter(name => name.toLowerCase().endsWith('.kml'));
+    if (kmlFiles.length === 0) {
+        throw new Error('KMZ archive does not contain a .kml file');
+    }
+    // doc.kml is the conventional root document; fall back to the first KML found
+    const root = kmlFiles.find(name => name.toLowerCase() === 'doc.kml') ?? kmlFiles[0];
+    return kmlToFeatures(await zip.files[root].async('string'));
+}
+
+/**
+ * shpjs reprojects to WGS84 using the .prj, which is kept as the layer's CRS
+ * so exports can be written back in it.
+ */
+async function shapefileToLayer(buffer: ArrayBuffer): Promise<FeatureLayer> {
+    const layers = await parseZip(buffer);
+    const zip = await JSZip.loadAsync(buffer);
+    const prjFile = Object.keys(zip.files).find(name => name.toLowerCase().endsWith('.prj'));
+    const prj = prjFile ? (await zip.files[prjFile].async('string')).trim() : null;
+
+    return {
+        features: [layers].flat().flatMap(layer => geoJSONToFeatures(layer)),
+        crs: resolveCRS(prj)?.code ?? WGS84,
+    };
+}
+
+async function readFeatures(file: File, format: GISFormat): Promise<FeatureLayer> {
+    switch (format) {
+        case 'geojson':
+            return geoJSONToLayer(JSON.parse(await file.text()));
+        case 'kml':
+            return { features: kmlToFeatures(await file.text()), crs: WGS84 };
+        case 'kmz':
+            return { features: await kmzToFeatures(await file.arrayBuffer()), crs: WGS84 };
+        case 'shapefile':
+            return shapefileToLayer(await file.arrayBuffer());
+    }
+}
+
+self.onmessage = async (event: MessageEvent<GISWorkerMessage>) => {
+    const { type, file, format } = event.data;
+
+    if (type !== 'parse') {
+        return;
+    }
+
+    try {
+        const { features, crs } = await readFeatures(file, format);
+        const errors: string[] = [];
+        // Axis order is fixed by these formats, so rows are never offered a swap
+        const stats = createValidationStats();
+        const rejected: RejectedRow[] = [];
+        let pointsBuffer = new PointTableBuilder(CHUNK_SIZE);
+        let pointIndex = 0;
+
+        // Transfer the buffered points to the main thread rather than copying them
+        const postChunk = (rowsProcessed: number) => {
+            const table = pointsBuffer.build();
+            self.postMessage({
+                type: 'chunk',
+                table,
+                rowsProcessed,
+            } as CSVWorkerChunk, pointTableTransferables(table));
+            pointsBuffer = new PointTableBuilder(CHUNK_SIZE);
+        };
+
+        features.forEach((feature, featureIndex) => {
+            if (feature.coordinates.length === 0) {
+                const error = `Feature ${featureIndex + 1}: Unsupported geometry type ${feature.geometryType} (only points are imported)`;
+                recordRow(stats, { error, reason: 'unsupported-geometry' });
+                rejected.push({
+                    row: featureIndex + 1,
+                    reason: 'unsupported-geometry',
+                    error,
+                    values: { geometry_type: feature.geometryType, ...toFields(feature.properties) },
+                });
+                if (errors.length < 10) { // Only log first 10 errors in detail
+                    errors.push(error);
+                }
+                return;
+            }
+
+            const fields = toFields(feature.properties);
+
+            feature.coordinates.forEach(([longitude, latitude]) => {
+                if (!Number.isFinite(longitude) || !Number.isFinite(latitude) ||
+                    longitude < -180 || longitude > 180 || latitude < -90 || latitude > 90) {
+                    const error = `Feature ${featureIndex + 1}: Coordinates out of range (lon=${longitude}, lat=${latitude})`;
+                    recordRow(stats, { error, reason: 'out-of-range' });
+                    rejected.push({
+                        row: featureIndex + 1,
+                        reason: 'out-of-range',
+                        error,
+                        values: { longitude, latitude, ...fields },
+                    });
+                    if (errors.length < 10) {
+                        errors.push(error);
+                    }
+                    return;
+                }
+
+                const point: CSVPoint = {
+                    id: `point-${pointIndex++}`,
+                    longitude,
+                    latitude,
+                    ...fields,
+                };
+                recordRow(stats, { point });
+                pointsBuffer.append(point);
+
+                if (pointsBuffer.length >= CHUNK_SIZE) {
+                    postChunk(featureIndex + 1);
+                }
+            });
+        });
+
+        if (pointsBuffer.length > 0) {
+            postChunk(features.length);
+        }
+
+        // Look for a group column among the attribute names of the first features
+        const propertyKeys = Array.from(new Set(
+            features.slice(0, 100).flatMap(f => Object.keys(toFields(f.properties)))
+        ));
+        self.postMessage({
+            type: 'complete',
+            errors,
+            stats: finishValidationStats(stats),
+            rejected,
+            columns: propertyKeys,
+            detectedColumns: {
+                longitude: GEOMETRY_COLUMN,
+                latitude: GEOMETRY_COLUMN,
+                group: detectColumns(propertyKeys).group,
+            },
+            crs,
+        } as CSVWorkerComplete);
+    } catch (error: any) {
+        self.postMessage({
+            type: 'error',
+            message: `Failed to read ${format} file: ${error.message}`,
+        } as CSVWorkerError);
+    }
+};
+
+export { };
@@ -9,6 +9,10 @@ import express, {
 
 import { createServer } from "http";
 
+import { registerRoutes } from "./routes";
+import { createStorage } from "./storage";
+import { openTileSources } from "./tile-sources";
+
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -27,9 +31,14 @@ declare module 'http' {
     rawBody: unknown
   }
 }
+// Point sets for large CSVs are posted as JSON, so raise the default 100kb limit
 app.use(express.json({
+  limit: process.env.MAX_BODY_SIZE || "1gb",
   verify: (req, _res, buf) => {
-    req.rawBody = buf;
+    // Point sets can run to hundreds of megabytes - don't keep a second copy
+    if (!req.url?.startsWith("/api/datasets")) {
+      req.rawBody = buf;
+    }
   }
 }));
 app.use(express.urlencoded({ extended: false }));
@@ -61,6 +70,15 @@ export default async function runApp(
 ) {
   const server = createServer(app);
 
+  // Datasets live in memory unless DATA_DIR points at a persistent disk, in
+  // which case they are written there as newline-delimited JSON.
+  const dataDir = process.env.DATA_DIR;
+  // Basemap tiles for offline use come from MBTiles/PMTiles archives in TILES_DIR
+  const tilesDir = process.env.TILES_DIR;
+  const storage = await createStorage(dataDir);
+  const tileSources = await openTileSources(tilesDir);
+  registerRoutes(app, storage, tileSources);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -83,5 +101,10 @@ export default async function runApp(
     host: "0.0.0.0", // Listen on all network interfaces for cloud deployment
   }, () => {
     log(`serving on port ${port}`);
+    log(dataDir ? `storing datasets in ${dataDir}` : "storing datasets in memory");
+    if (tilesDir) {
+      log(`serving ${tileSources.list().length} tile archive(s) from ${tilesDir}`);
+      tileSources.warnings.forEach(warning => log(warning, "tiles"));
+    }
   });
 }
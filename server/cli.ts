@@ -0,0 +1,442 @@
+#!/usr/bin/env node
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import Papa from "papaparse";
+import shpwrite from "@mapbox/shp-write";
+
+import {
+  type OutlierMethod,
+  type Polygon,
+  type PolygonMethod,
+  outlierMethodSchema,
+  polygonMethodSchema,
+} from "@shared/schema";
+import {
+  createValidationStats,
+  detectColumns,
+  finishValidationStats,
+  hasCoordinateColumns,
+  missingColumnsMessage,
+  parseRow,
+  recordRow,
+  sampleCoordinates,
+  type DetectedColumns,
+  type ValidationStats,
+} from "@shared/csv-parsing";
+import {
+  createTransform,
+  describeCRS,
+  guessCRS,
+  reprojectFeatureCollection,
+  resolveCRS,
+  WGS84,
+  type Transform,
+} from "@shared/crs";
+import { DEFAULT_RADIUS_METERS, generatePolygons } from "@shared/polygon-generation";
+import { DEFAULT_OUTLIER_THRESHOLDS } from "@shared/outliers";
+import { PointTableBuilder, type PointTable } from "@shared/point-table";
+import { forShapefile, polygonParts, polygonsToFeatureCollection } from "@shared/geojson";
+
+// Headless CSV-to-polygon conversion using the same column detection, coordinate
+// parsing and hull pipeline as the browser app.
+
+const USAGE = `Usage: geopolygon convert <input.csv...> [options]
+
+Options:
+  -g, --group-field <column>   Column to group points by (default: auto-detected)
+  -c, --concavity <number>     Concave hull concavity (default: 2)
+  -m, --method <method>        concave | simplified | convex | alpha | buffer | hexbin (default: concave)
+  -p, --padding <number>       Simplification tolerance for "simplified" (default: 0.05)
+  -r, --radius <metres>        Alpha radius, buffer distance or hexagon size for
+                               "alpha", "buffer" and "hexbin" (default: 250)
+  -x, --outliers <method>      Leave outliers out of each polygon: none | stddev | iqr | lof | knn
+                               (default: none)
+  -t, --outlier-threshold <n>  Cut-off for --outliers (default: 2 for stddev and lof, 1.5 for
+                               iqr, 3 for knn)
+  -d, --split-distance <m>     Split a group into separate parts where its points are more
+                               than this many metres apart (default: one part per group)
+  -i, --hole-spacing <n>       Cut holes where an empty area inside a hull spans more than n
+                               times the usual point spacing (default: no holes)
+  -s, --crs <crs>              Coordinate system of the x/y columns: EPSG code, proj4 or WKT
+                               (default: guessed from the values, WGS84 for lon/lat)
+  -k, --keep-crs               Write polygons in the input CRS instead of WGS84
+  -w, --swap-coordinates       Read the longitude column as latitude and vice versa
+  -f, --format <format>        geojson | shapefile (default: from --output extension, else geojson)
+  -o, --output <path>          Output file, or output directory when converting several inputs
+  -h, --help                   Show this help
+
+Examples:
+  geopolygon convert input.csv --group-field zone --concavity 2 --method simplified -o out.geojson
+  geopolygon convert data/*.csv --format shapefile -o exports/
+  geopolygon convert gps.csv --outliers lof --outlier-threshold 2 -o gps.geojson
+  geopolygon convert depots.csv --group-field company --split-distance 2000 -o depots.geojson
+  geopolygon convert trees.csv --hole-spacing 6 -o canopy.geojson
+  geopolygon convert survey.csv --crs EPSG:32643 --keep-crs -f shapefile -o survey.zip`;
+
+type OutputFormat = "geojson" | "shapefile";
+
+interface ConvertOptions {
+  groupField?: string;
+  concavity: number;
+  method: PolygonMethod;
+  padding: number;
+  radius: number;
+  outlierMethod: OutlierMethod;
+  outlierThreshold: number;
+  splitDistance?: number;
+  holeSpacing?: number;
+  crs?: string;
+  keepCrs: boolean;
+  swapCoordinates: boolean;
+  format?: OutputFormat;
+  output?: string;
+}
+
+class UsageError extends Error {}
+
+interface ParsedCSV {
+  points: PointTable;
+  detectedColumns: DetectedColumns;
+  columns: string[];
+  crs: string;
+  stats: ValidationStats;
+}
+
+// Rows read before settling on the coordinate columns and system
+const SAMPLE_ROWS = 10;
+
+/**
+ * The --crs option, or a guess from the sample values. UTM zones can't be told
+ * from the values, so those need --crs.
+ */
+function chooseCRS(rows: Record<string, any>[], columns: DetectedColumns, requested?: string): string {
+  if (requested) return requested;
+
+  const guess = guessCRS(sampleCoordinates(rows, columns));
+  if (guess.utmHemisphere) {
+    const example = guess.utmHemisphere === "N" ? "EPSG:32633" : "EPSG:32733";
+    throw new Error(
+      `Coordinates look like UTM (${guess.utmHemisphere === "N" ? "northern" : "southern"} hemisphere). ` +
+      `Pass --crs with the zone, e.g. --crs ${example}`,
+    );
+  }
+  return guess.code ?? WGS84;
+}
+
+async function readPoints(file: string, requestedCrs?: string, swap = false): Promise<ParsedCSV> {
+  const points = new PointTableBuilder();
+  let detectedColumns: DetectedColumns = { longitude: null, latitude: null, group: null };
+  let columns: string[] = [];
+  let crs: string | null = null;
+  let transform: Transform | null = null;
+  let sampleRows: Record<string, any>[] = [];
+  let rowIndex = 0;
+  const stats = createValidationStats(swap);
+
+  const handleRow = (row: Record<string, any>) => {
+    const result = parseRow(row, detectedColumns, rowIndex, { transform, swap });
+    recordRow(stats, result);
+    if (result.error !== undefined) {
+      if (stats.rejectedRows <= 10) {
+        console.warn(`  ${result.error}`);
+      }
+    } else {
+      points.append(result.point);
+    }
+    rowIndex++;
+  };
+
+  // Columns are detected from sample values too, so combined coordinate
+  // columns (pairs, WKT, geohash, MGRS) are recognised
+  const settleColumns = () => {
+    detectedColumns = detectColumns(columns, sampleRows);
+    if (!hasCoordinateColumns(detectedColumns)) {
+      throw new Error(missingColumnsMessage(columns));
+    }
+    crs = chooseCRS(sampleRows, detectedColumns, requestedCrs);
+    transform = createTransform(crs);
+    sampleRows.forEach(handleRow);
+    sampleRows = [];
+  };
+
+  const rows = fs.createReadStream(file).pipe(
+    Papa.parse(Papa.NODE_STREAM_INPUT, {
+      header: true,
+      dynamicTyping: false,
+      skipEmptyLines: true,
+    }),
+  );
+
+  for await (const row of rows as AsyncIterable<Record<string, any>>) {
+    if (columns.length === 0) {
+      columns = Object.keys(row);
+    }
+
+    if (crs !== null) {
+      handleRow(row);
+      continue;
+    }
+
+    sampleRows.push(row);
+    if (sampleRows.length >= SAMPLE_ROWS) {
+      try {
+        settleColumns();
+      } catch (err) {
+        rows.destroy();
+        throw err;
+      }
+    }
+  }
+
+  // Files shorter than the sample
+  if (crs === null && sampleRows.length > 0) {
+    settleColumns();
+  }
+
+  return { points: points.view(), detectedColumns, columns, crs: crs ?? WGS84, stats: finishValidationStats(stats) };
+}
+
+function formatFor(options: ConvertOptions, outputPath?: string): OutputFormat {
+  if (options.format) return options.format;
+  const ext = outputPath ? path.extname(outputPath).toLowerCase() : "";
+  return ext === ".zip" || ext === ".shp" ? "shapefile" : "geojson";
+}
+
+async function writePolygons(polygons: Polygon[], outputPath: string, format: OutputFormat, crs: string) {
+  const geojson = reprojectFeatureCollection(polygonsToFeatureCollection(polygons), crs);
+
+  if (format === "geojson") {
+    await fs.promises.writeFile(outputPath, JSON.stringify(geojson, null, 2));
+    return;
+  }
+
+  const zip = await shpwrite.zip<"nodebuffer">(forShapefile(geojson), {
+    folder: path.basename(outputPath, path.extname(outputPath)),
+    types: {
+      polygon: "polygons",
+    },
+    prj: resolveCRS(crs)?.wkt,
+    compression: "DEFLATE",
+    outputType: "nodebuffer",
+  });
+  await fs.promises.writeFile(outputPath, zip);
+}
+
+/**
+ * Work out where each input is written. A single input goes to --output as-is;
+ * several inputs go into --output as a directory, named after each CSV.
+ */
+function outputPathFor(input: string, options: ConvertOptions, multiple: boolean): string {
+  if (options.output && !multiple && !options.output.endsWith(path.sep)) {
+    return options.output;
+  }
+
+  const dir = options.output ?? path.dirname(input);
+  const ext = formatFor(options) === "shapefile" ? ".zip" : ".geojson";
+  return path.join(dir, path.basename(input, path.extname(input)) + ext);
+}
+
+async function convertFile(input: string, options: ConvertOptions, multiple: boolean) {
+  const outputPath = outputPathFor(input, options, multiple);
+  const format = formatFor(options, outputPath);
+
+  console.log(`${input}`);
+  const { points, detectedColumns, columns, crs, stats } = await readPoints(input, options.crs, options.swapCoordinates);
+  if (crs !== WGS84) {
+    console.log(`  Reprojecting from ${describeCRS(crs)}`);
+  }
+
+  // Same fallback as the UI: the detected group column, else the first
+  // non-coordinate column
+  const coordinateColumns = [detectedColumns.longitude, detectedColumns.latitude, detectedColumns.coordinates];
+  const groupField = options.groupField
+    ?? detectedColumns.group
+    ?? columns.find(col => !coordinateColumns.includes(col))
+    ?? "";
+
+  if (options.groupField && !columns.includes(options.groupField)) {
+    throw new Error(`Group field "${options.groupField}" not found. Available columns: ${columns.join(", ")}`);
+  }
+
+  let outlierCount = 0;
+  const polygons = generatePolygons(points, {
+    concavity: options.concavity,
+    groupField,
+    method: options.method,
+    padding: options.padding,
+    radius: options.radius,
+    outliers: { method: options.outlierMethod, threshold: options.outlierThreshold },
+    splitDistance: options.splitDistance,
+    holeSpacing: options.holeSpacing,
+  }, undefined, (_groupId, indices) => {
+    outlierCount += indices.length;
+  });
+
+  await fs.promises.mkdir(path.dirname(path.resolve(outputPath)), { recursive: true });
+  const outputCrs = options.keepCrs ? crs : WGS84;
+  if (format === "shapefile" && !resolveCRS(outputCrs)?.wkt) {
+    throw new Error(`No .prj can be written for a proj4 definition - pass --crs as an EPSG code or WKT`);
+  }
+  await writePolygons(polygons, outputPath, format, outputCrs);
+
+  console.log(
+    `  ${points.length} points (${stats.rejectedRows} skipped), grouped by "${groupField}" -> ` +
+    `${polygons.length} polygons written to ${outputPath}`,
+  );
+  if (options.outlierMethod !== "none") {
+    console.log(`  ${outlierCount} outliers left out (${options.outlierMethod}, threshold ${options.outlierThreshold})`);
+  } else if (outlierCount > 0) {
+    console.log(`  ${outlierCount} points left out in areas too small for a hull`);
+  }
+  const parts = polygons.map(polygonParts);
+  const multiPart = parts.filter(rings => rings.length > 1).length;
+  if (multiPart > 0) {
+    console.log(`  ${multiPart} groups cover separate areas and were written as multi-part polygons`);
+  }
+  const holes = parts.flat().reduce((sum, rings) => sum + rings.length - 1, 0);
+  if (holes > 0) {
+    console.log(`  ${holes} holes cut where the points leave large empty areas`);
+  }
+  if (stats.swapSuggested) {
+    console.warn(
+      `  ${stats.swappableRows} of ${stats.totalRows} rows are only in range with longitude and latitude swapped. ` +
+      `Rerun with --swap-coordinates if the columns are the wrong way round`,
+    );
+  }
+}
+
+function parseNumber(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const num = Number(value);
+  if (!Number.isFinite(num)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`);
+  }
+  return num;
+}
+
+function parseOptions(argv: string[]): { inputs: string[]; options: ConvertOptions } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      "group-field": { type: "string", short: "g" },
+      concavity: { type: "string", short: "c" },
+      method: { type: "string", short: "m" },
+      padding: { type: "string", short: "p" },
+      radius: { type: "string", short: "r" },
+      outliers: { type: "string", short: "x" },
+      "outlier-threshold": { type: "string", short: "t" },
+      "split-distance": { type: "string", short: "d" },
+      "hole-spacing": { type: "string", short: "i" },
+      crs: { type: "string", short: "s" },
+      "keep-crs": { type: "boolean", short: "k" },
+      "swap-coordinates": { type: "boolean", short: "w" },
+      format: { type: "string", short: "f" },
+      output: { type: "string", short: "o" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const [command, ...inputs] = positionals;
+  if (command !== "convert") {
+    throw new UsageError(command ? `Unknown command "${command}"` : "Missing command");
+  }
+  if (inputs.length === 0) {
+    throw new UsageError("No input CSV files given");
+  }
+
+  const method = polygonMethodSchema.safeParse(values.method ?? "concave");
+  if (!method.success) {
+    throw new UsageError(`--method must be one of: ${polygonMethodSchema.options.join(", ")}`);
+  }
+
+  const outlierMethod = outlierMethodSchema.safeParse(values.outliers ?? "none");
+  if (!outlierMethod.success) {
+    throw new UsageError(`--outliers must be one of: ${outlierMethodSchema.options.join(", ")}`);
+  }
+
+  const concavity = parseNumber("concavity", values.concavity, 2);
+  if (concavity <= 0) {
+    throw new UsageError(`--concavity must be more than 0`);
+  }
+
+  const splitDistance = values["split-distance"] === undefined
+    ? undefined
+    : parseNumber("split-distance", values["split-distance"], 0);
+  if (splitDistance !== undefined && splitDistance <= 0) {
+    throw new UsageError(`--split-distance must be more than 0 metres`);
+  }
+
+  const holeSpacing = values["hole-spacing"] === undefined
+    ? undefined
+    : parseNumber("hole-spacing", values["hole-spacing"], 0);
+  if (holeSpacing !== undefined && holeSpacing <= 0) {
+    throw new UsageError(`--hole-spacing must be more than 0`);
+  }
+
+  const crs = values.crs === undefined ? undefined : resolveCRS(values.crs);
+  if (crs === null) {
+    throw new UsageError(`--crs "${values.crs}" is not a known EPSG code or a readable proj4/WKT definition`);
+  }
+
+  if (values.format && values.format !== "geojson" && values.format !== "shapefile") {
+    throw new UsageError(`--format must be geojson or shapefile`);
+  }
+
+  return {
+    inputs,
+    options: {
+      groupField: values["group-field"],
+      concavity,
+      method: method.data,
+      padding: parseNumber("padding", values.padding, 0.05),
+      radius: parseNumber("radius", values.radius, DEFAULT_RADIUS_METERS),
+      outlierMethod: outlierMethod.data,
+      outlierThreshold: parseNumber("outlier-threshold", values["outlier-threshold"], DEFAULT_OUTLIER_THRESHOLDS[outlierMethod.data]),
+      splitDistance,
+      holeSpacing,
+      crs: crs?.code,
+      keepCrs: values["keep-crs"] ?? false,
+      swapCoordinates: values["swap-coordinates"] ?? false,
+      format: values.format as OutputFormat | undefined,
+      output: values.output,
+    },
+  };
+}
+
+async function main() {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(process.argv.slice(2));
+  } catch (err: any) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+
+  const { inputs, options } = parsed;
+  let failed = 0;
+
+  // Keep going when one file fails so a batch run converts everything it can
+  for (const input of inputs) {
+    try {
+      await convertFile(input, options, inputs.length > 1);
+    } catch (err: any) {
+      console.error(`  Failed: ${err.message}`);
+      failed++;
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} of ${inputs.length} file(s) failed`);
+    process.exit(1);
+  }
+}
+
+main();
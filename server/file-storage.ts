@@ -0,0 +1,207 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { randomUUID } from "node:crypto";
+
+import {
+  type CSVPoint,
+  type DatasetSummary,
+  type InsertPointSet,
+  type InsertPolygonSet,
+  type Polygon,
+  type PointSet,
+  type PolygonSet,
+} from "@shared/schema";
+import { type IStorage } from "./storage";
+
+const MANIFEST_FILE = "datasets.ndjson";
+
+/**
+ * Disk-persisted storage using newline-delimited JSON.
+ *
+ * `datasets.ndjson` holds one summary line per dataset, and each dataset's
+ * points or polygons live in `<id>.ndjson` with one record per line so large
+ * uploads are streamed to and from disk rather than held as one JSON string.
+ * Call `load()` once before use.
+ */
+export class FileStorage implements IStorage {
+  private summaries = new Map<string, DatasetSummary>();
+  // Manifest writes are chained so concurrent requests can't interleave them
+  private manifestWrite: Promise<void> = Promise.resolve();
+
+  constructor(private dataDir: string) {}
+
+  /**
+   * Read the manifest. Corrupt lines are skipped with a warning - the next
+   * write drops them - but a manifest that can't be read at all fails.
+   */
+  async load(): Promise<void> {
+    const manifestPath = path.join(this.dataDir, MANIFEST_FILE);
+    try {
+      await fs.promises.mkdir(this.dataDir, { recursive: true });
+      if (!fs.existsSync(manifestPath)) return;
+
+      const skipLine = (line: number, err: Error) =>
+        console.warn(`[storage] skipping line ${line} of ${manifestPath}: ${err.message}`);
+      for await (const summary of readLines<DatasetSummary>(manifestPath, skipLine)) {
+        // Skip entries whose data file has gone missing
+        if (typeof summary?.id === "string" && fs.existsSync(this.dataPath(summary.id))) {
+          this.summaries.set(summary.id, summary);
+        }
+      }
+    } catch (err) {
+      throw new Error(`Can't load the datasets in ${this.dataDir}: ${(err as Error).message}`);
+    }
+  }
+
+  private dataPath(id: string): string {
+    return path.join(this.dataDir, `${id}.ndjson`);
+  }
+
+  // Writes the manifest with `change` made to the summaries, and only makes
+  // it in memory too once the manifest is on disk
+  private async updateManifest(change: (summaries: Map<string, DatasetSummary>) => void): Promise<void> {
+    const write = this.manifestWrite.then(async () => {
+      const summaries = new Map(this.summaries);
+      change(summaries);
+      await writeLines(path.join(this.dataDir, MANIFEST_FILE), summaries.values());
+      this.summaries = summaries;
+    });
+    this.manifestWrite = write.catch(() => {});
+    return write;
+  }
+
+  private async create(summary: DatasetSummary, records: Iterable<unknown>): Promise<void> {
+    await writeLines(this.dataPath(summary.id), records);
+    try {
+      await this.updateManifest(summaries => summaries.set(summary.id, summary));
+    } catch (err) {
+      await fs.promises.rm(this.dataPath(summary.id), { force: true });
+      throw err;
+    }
+  }
+
+  private async readRecords<T>(id: string, kind: DatasetSummary["kind"]) {
+    const summary = this.summaries.get(id);
+    if (!summary || summary.kind !== kind) return undefined;
+
+    const records: T[] = [];
+    for await (const record of readLines<T>(this.dataPath(id))) {
+      records.push(record);
+    }
+    return { summary, records };
+  }
+
+  private async list(kind: DatasetSummary["kind"]): Promise<DatasetSummary[]> {
+    return Array.from(this.summaries.values()).filter(s => s.kind === kind);
+  }
+
+  private async delete(id: string, kind: DatasetSummary["kind"]): Promise<boolean> {
+    if (this.summaries.get(id)?.kind !== kind) return false;
+
+    await this.updateManifest(summaries => summaries.delete(id));
+    await fs.promises.rm(this.dataPath(id), { force: true });
+    return true;
+  }
+
+  async createPointSet(data: InsertPointSet): Promise<PointSet> {
+    const summary: DatasetSummary = {
+      id: randomUUID(),
+      name: data.name,
+      kind: "points",
+      count: data.points.length,
+      createdAt: new Date().toISOString(),
+    };
+    await this.create(summary, data.points);
+    return { ...summary, kind: "points", points: data.points };
+  }
+
+  async getPointSet(id: string): Promise<PointSet | undefined> {
+    const result = await this.readRecords<CSVPoint>(id, "points");
+    if (!result) return undefined;
+    return { ...result.summary, kind: "points", points: result.records };
+  }
+
+  async listPointSets(): Promise<DatasetSummary[]> {
+    return this.list("points");
+  }
+
+  async deletePointSet(id: string): Promise<boolean> {
+    return this.delete(id, "points");
+  }
+
+  async createPolygonSet(data: InsertPolygonSet): Promise<PolygonSet> {
+    const summary: DatasetSummary = {
+      id: randomUUID(),
+      name: data.name,
+      kind: "polygons",
+      count: data.polygons.length,
+      createdAt: new Date().toISOString(),
+      ...(data.pointSetId ? { pointSetId: data.pointSetId } : {}),
+    };
+    await this.create(summary, data.polygons);
+    return { ...summary, kind: "polygons", polygons: data.polygons };
+  }
+
+  async getPolygonSet(id: string): Promise<PolygonSet | undefined> {
+    const result = await this.readRecords<Polygon>(id, "polygons");
+    if (!result) return undefined;
+    return { ...result.summary, kind: "polygons", polygons: result.records };
+  }
+
+  async listPolygonSets(): Promise<DatasetSummary[]> {
+    return this.list("polygons");
+  }
+
+  async deletePolygonSet(id: string): Promise<boolean> {
+    return this.delete(id, "polygons");
+  }
+}
+
+/** Parse one JSON record per line. Without `onBadLine`, a line that isn't JSON throws. */
+async function* readLines<T>(filePath: string, onBadLine?: (line: number, err: Error) => void): AsyncGenerator<T> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: "utf-8" }),
+    crlfDelay: Infinity,
+  });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === "") continue;
+
+    let record: T;
+    try {
+      record = JSON.parse(line) as T;
+    } catch (err) {
+      if (!onBadLine) throw err;
+      onBadLine(lineNumber, err as Error);
+      continue;
+    }
+    yield record;
+  }
+}
+
+/**
+ * Write one JSON record per line to a temp file, then rename it into place so a
+ * crash mid-write never leaves a truncated file behind.
+ */
+async function writeLines(filePath: string, records: Iterable<unknown>): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  // pipeline waits for drain between lines and rejects on any write error,
+  // destroying the stream
+  function* lines() {
+    for (const record of records) yield JSON.stringify(record) + "\n";
+  }
+
+  try {
+    await pipeline(Readable.from(lines()), fs.createWriteStream(tempPath, { encoding: "utf-8" }));
+    await fs.promises.rename(tempPath, filePath);
+  } catch (err) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw err;
+  }
+}
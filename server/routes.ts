@@ -0,0 +1,196 @@
+import { type Express, type Response } from "express";
+import { type ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+import {
+  generatePolygonsRequestSchema,
+  insertPointSetSchema,
+  insertPolygonSetSchema,
+} from "@shared/schema";
+import { generatePolygons } from "@shared/polygon-generation";
+import { DEFAULT_OUTLIER_THRESHOLDS } from "@shared/outliers";
+import { pointTableFromPoints } from "@shared/point-table";
+import { type IStorage } from "./storage";
+import { type TileSources } from "./tile-sources";
+
+function sendValidationError(res: Response, error: ZodError) {
+  res.status(400).json({
+    message: fromZodError(error, { prefix: "Invalid request body" }).message,
+  });
+}
+
+function sendNotFound(res: Response, kind: string, id: string) {
+  res.status(404).json({ message: `${kind} "${id}" not found` });
+}
+
+export function registerRoutes(app: Express, storage: IStorage, tileSources: TileSources) {
+  // List every stored dataset (summaries only - fetch one to get its data)
+  app.get("/api/datasets", async (_req, res, next) => {
+    try {
+      const [pointSets, polygonSets] = await Promise.all([
+        storage.listPointSets(),
+        storage.listPolygonSets(),
+      ]);
+      res.json({ pointSets, polygonSets });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Point sets
+  app.get("/api/datasets/points", async (_req, res, next) => {
+    try {
+      res.json(await storage.listPointSets());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/datasets/points", async (req, res, next) => {
+    const parsed = insertPointSetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const pointSet = await storage.createPointSet(parsed.data);
+      res.status(201).json(pointSet);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/datasets/points/:id", async (req, res, next) => {
+    try {
+      const pointSet = await storage.getPointSet(req.params.id);
+      if (!pointSet) {
+        return sendNotFound(res, "Point set", req.params.id);
+      }
+      res.json(pointSet);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/datasets/points/:id", async (req, res, next) => {
+    try {
+      const deleted = await storage.deletePointSet(req.params.id);
+      if (!deleted) {
+        return sendNotFound(res, "Point set", req.params.id);
+      }
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Polygon sets
+  app.get("/api/datasets/polygons", async (_req, res, next) => {
+    try {
+      res.json(await storage.listPolygonSets());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/datasets/polygons", async (req, res, next) => {
+    const parsed = insertPolygonSetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      // Reject links to point sets that don't exist
+      if (parsed.data.pointSetId && !(await storage.getPointSet(parsed.data.pointSetId))) {
+        return res.status(422).json({
+          message: `Point set "${parsed.data.pointSetId}" does not exist`,
+        });
+      }
+
+      const polygonSet = await storage.createPolygonSet(parsed.data);
+      res.status(201).json(polygonSet);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/datasets/polygons/:id", async (req, res, next) => {
+    try {
+      const polygonSet = await storage.getPolygonSet(req.params.id);
+      if (!polygonSet) {
+        return sendNotFound(res, "Polygon set", req.params.id);
+      }
+      res.json(polygonSet);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/datasets/polygons/:id", async (req, res, next) => {
+    try {
+      const deleted = await storage.deletePolygonSet(req.params.id);
+      if (!deleted) {
+        return sendNotFound(res, "Polygon set", req.params.id);
+      }
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Polygon generation - same pipeline as the browser's polygon worker
+  app.post("/api/polygons/generate", async (req, res, next) => {
+    const parsed = generatePolygonsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const { datasetId, groupField, concavity, method, padding, radius, outlierMethod, outlierThreshold, splitDistance, holeSpacing } = parsed.data;
+      let points = parsed.data.points;
+
+      if (datasetId) {
+        const pointSet = await storage.getPointSet(datasetId);
+        if (!pointSet) {
+          return sendNotFound(res, "Point set", datasetId);
+        }
+        points = pointSet.points;
+      }
+
+      const outliers = { method: outlierMethod, threshold: outlierThreshold ?? DEFAULT_OUTLIER_THRESHOLDS[outlierMethod] };
+      const polygons = generatePolygons(pointTableFromPoints(points ?? []), { concavity, groupField, method, padding, radius, outliers, splitDistance, holeSpacing });
+      res.json(polygons);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Local basemap archives (TILES_DIR)
+  app.get("/api/tiles", (_req, res) => {
+    res.json(tileSources.list());
+  });
+
+  app.get("/api/tiles/:id/:z/:x/:y", async (req, res, next) => {
+    const [z, x, y] = [req.params.z, req.params.x, req.params.y].map(Number);
+    if (![z, x, y].every(Number.isInteger) || z < 0 || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) {
+      return res.status(400).json({ message: `Invalid tile ${req.params.z}/${req.params.x}/${req.params.y}` });
+    }
+
+    try {
+      const tile = await tileSources.getTile(req.params.id, z, x, y);
+      if (!tile) {
+        return sendNotFound(res, "Tile", `${req.params.id}/${z}/${x}/${y}`);
+      }
+      // Archives don't change while the server runs
+      res.set("Cache-Control", "public, max-age=86400");
+      res.type(tile.contentType).send(Buffer.from(tile.data.buffer, tile.data.byteOffset, tile.data.byteLength));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Unknown API routes should not fall through to the client catch-all
+  app.use("/api", (req, res) => {
+    res.status(404).json({ message: `Cannot ${req.method} ${req.originalUrl}` });
+  });
+}
@@ -1,48 +1,108 @@
-import { type CSVPoint, type Polygon } from "@shared/schema";
+import { randomUUID } from "node:crypto";
+
+import {
+  type DatasetSummary,
+  type InsertPointSet,
+  type InsertPolygonSet,
+  type PointSet,
+  type PolygonSet,
+} from "@shared/schema";
+import { FileStorage } from "./file-storage";
 
 // Storage interface for geospatial data
-// Note: This app primarily uses client-side processing
-// Backend storage is optional for future features
+// Point sets (uploaded CSVs) and polygon sets (generated runs) are stored as
+// named datasets so they can be shared between users of the same server.
 
 export interface IStorage {
-  // CSV Points
-  savePoints(points: CSVPoint[]): Promise<void>;
-  getPoints(): Promise<CSVPoint[]>;
-  clearPoints(): Promise<void>;
-  
-  // Polygons
-  savePolygons(polygons: Polygon[]): Promise<void>;
-  getPolygons(): Promise<Polygon[]>;
-  clearPolygons(): Promise<void>;
+  // Point sets
+  createPointSet(data: InsertPointSet): Promise<PointSet>;
+  getPointSet(id: string): Promise<PointSet | undefined>;
+  listPointSets(): Promise<DatasetSummary[]>;
+  deletePointSet(id: string): Promise<boolean>;
+
+  // Polygon sets
+  createPolygonSet(data: InsertPolygonSet): Promise<PolygonSet>;
+  getPolygonSet(id: string): Promise<PolygonSet | undefined>;
+  listPolygonSets(): Promise<DatasetSummary[]>;
+  deletePolygonSet(id: string): Promise<boolean>;
+}
+
+export function toSummary(dataset: PointSet | PolygonSet): DatasetSummary {
+  return {
+    id: dataset.id,
+    name: dataset.name,
+    kind: dataset.kind,
+    count: dataset.count,
+    createdAt: dataset.createdAt,
+    ...(dataset.pointSetId ? { pointSetId: dataset.pointSetId } : {}),
+  };
 }
 
 export class MemStorage implements IStorage {
-  private points: CSVPoint[] = [];
-  private polygons: Polygon[] = [];
+  private pointSets = new Map<string, PointSet>();
+  private polygonSets = new Map<string, PolygonSet>();
 
-  async savePoints(points: CSVPoint[]): Promise<void> {
-    this.points = points;
+  async createPointSet(data: InsertPointSet): Promise<PointSet> {
+    const pointSet: PointSet = {
+      id: randomUUID(),
+      name: data.name,
+      kind: "points",
+      count: data.points.length,
+      createdAt: new Date().toISOString(),
+      points: data.points,
+    };
+    this.pointSets.set(pointSet.id, pointSet);
+    return pointSet;
   }
 
-  async getPoints(): Promise<CSVPoint[]> {
-    return this.points;
+  async getPointSet(id: string): Promise<PointSet | undefined> {
+    return this.pointSets.get(id);
   }
 
-  async clearPoints(): Promise<void> {
-    this.points = [];
+  async listPointSets(): Promise<DatasetSummary[]> {
+    return Array.from(this.pointSets.values()).map(toSummary);
   }
 
-  async savePolygons(polygons: Polygon[]): Promise<void> {
-    this.polygons = polygons;
+  async deletePointSet(id: string): Promise<boolean> {
+    return this.pointSets.delete(id);
   }
 
-  async getPolygons(): Promise<Polygon[]> {
-    return this.polygons;
+  async createPolygonSet(data: InsertPolygonSet): Promise<PolygonSet> {
+    const polygonSet: PolygonSet = {
+      id: randomUUID(),
+      name: data.name,
+      kind: "polygons",
+      count: data.polygons.length,
+      createdAt: new Date().toISOString(),
+      pointSetId: data.pointSetId,
+      polygons: data.polygons,
+    };
+    this.polygonSets.set(polygonSet.id, polygonSet);
+    return polygonSet;
   }
 
-  async clearPolygons(): Promise<void> {
-    this.polygons = [];
+  async getPolygonSet(id: string): Promise<PolygonSet | undefined> {
+    return this.polygonSets.get(id);
+  }
+
+  async listPolygonSets(): Promise<DatasetSummary[]> {
+    return Array.from(this.polygonSets.values()).map(toSummary);
+  }
+
+  async deletePolygonSet(id: string): Promise<boolean> {
+    return this.polygonSets.delete(id);
   }
 }
 
-export const storage = new MemStorage();
+/**
+ * Pick the storage backend. Datasets are kept in memory (and lost on restart)
+ * unless `dataDir` points at a directory on a persistent disk, whose datasets
+ * are loaded before this resolves - a directory that can't be read fails here
+ * rather than on every request.
+ */
+export async function createStorage(dataDir?: string): Promise<IStorage> {
+  if (!dataDir) return new MemStorage();
+  const storage = new FileStorage(dataDir);
+  await storage.load();
+  return storage;
+}
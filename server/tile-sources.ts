@@ -0,0 +1,206 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import Database from "better-sqlite3";
+import { PMTiles, TileType, type RangeResponse, type Source } from "pmtiles";
+
+import { type TileSourceSummary } from "@shared/schema";
+
+type TileFormat = TileSourceSummary["format"];
+
+const CONTENT_TYPES: Record<TileFormat, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+};
+
+// A local tile archive, opened once and read for every tile request
+interface TileArchive {
+  summary: TileSourceSummary;
+  getTile(z: number, x: number, y: number): Promise<Uint8Array | undefined>;
+}
+
+function tileUrl(id: string): string {
+  return `/api/tiles/${encodeURIComponent(id)}/{z}/{x}/{y}`;
+}
+
+// Leaflet can only show raster tiles; anything else is reported and skipped
+function rasterFormat(format: string | undefined): TileFormat | undefined {
+  switch (format?.toLowerCase()) {
+    case "png":
+      return "png";
+    case "jpg":
+    case "jpeg":
+      return "jpg";
+    case "webp":
+      return "webp";
+    default:
+      return undefined;
+  }
+}
+
+function parseBounds(value: string | undefined): TileSourceSummary["bounds"] {
+  const bounds = value?.split(",").map(Number);
+  if (!bounds || bounds.length !== 4 || !bounds.every(Number.isFinite)) return undefined;
+  return bounds as [number, number, number, number];
+}
+
+/**
+ * MBTiles: an SQLite database with a `metadata` key/value table and a `tiles`
+ * table. Rows are numbered bottom-up (TMS), so y is flipped on the way out.
+ */
+function openMBTiles(filePath: string, id: string): TileArchive {
+  const db = new Database(filePath, { readonly: true, fileMustExist: true });
+  try {
+    const rows = db.prepare("SELECT name, value FROM metadata").all() as { name: string; value: string }[];
+    const metadata = new Map(rows.map(row => [row.name, row.value]));
+
+    const format = rasterFormat(metadata.get("format") ?? "png");
+    if (!format) {
+      throw new Error(`"${metadata.get("format")}" tiles can't be shown as a Leaflet basemap`);
+    }
+
+    // Older archives leave out the zoom range, so fall back to the tiles present
+    let minZoom = Number(metadata.get("minzoom"));
+    let maxZoom = Number(metadata.get("maxzoom"));
+    if (!metadata.has("minzoom") || !metadata.has("maxzoom")) {
+      const range = db.prepare("SELECT MIN(zoom_level) AS min, MAX(zoom_level) AS max FROM tiles").get() as {
+        min: number | null;
+        max: number | null;
+      };
+      minZoom = range.min ?? 0;
+      maxZoom = range.max ?? 0;
+    }
+
+    const selectTile = db.prepare(
+      "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?",
+    );
+
+    return {
+      summary: {
+        id,
+        name: metadata.get("name") || id,
+        format,
+        minZoom,
+        maxZoom,
+        bounds: parseBounds(metadata.get("bounds")),
+        attribution: metadata.get("attribution") || undefined,
+        url: tileUrl(id),
+      },
+      async getTile(z, x, y) {
+        const row = selectTile.get(z, x, (1 << z) - 1 - y) as { tile_data: Buffer } | undefined;
+        return row?.tile_data;
+      },
+    };
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+}
+
+// Reads byte ranges of a PMTiles archive straight from disk
+class FileRangeSource implements Source {
+  constructor(private file: fs.promises.FileHandle, private filePath: string) {}
+
+  async getBytes(offset: number, length: number): Promise<RangeResponse> {
+    const data = new Uint8Array(length);
+    const { bytesRead } = await this.file.read(data, 0, length, offset);
+    return { data: data.buffer.slice(0, bytesRead) };
+  }
+
+  getKey(): string {
+    return this.filePath;
+  }
+}
+
+const PMTILES_FORMATS: Partial<Record<TileType, TileFormat>> = {
+  [TileType.Png]: "png",
+  [TileType.Jpeg]: "jpg",
+  [TileType.Webp]: "webp",
+};
+
+async function openPMTiles(filePath: string, id: string): Promise<TileArchive> {
+  const file = await fs.promises.open(filePath, "r");
+  try {
+    const archive = new PMTiles(new FileRangeSource(file, filePath));
+    const header = await archive.getHeader();
+
+    const format = PMTILES_FORMATS[header.tileType];
+    if (!format) {
+      throw new Error(`${TileType[header.tileType] ?? "Unknown"} tiles can't be shown as a Leaflet basemap`);
+    }
+
+    const metadata = (await archive.getMetadata()) as { name?: string; attribution?: string } | undefined;
+
+    return {
+      summary: {
+        id,
+        name: metadata?.name || id,
+        format,
+        minZoom: header.minZoom,
+        maxZoom: header.maxZoom,
+        bounds: [header.minLon, header.minLat, header.maxLon, header.maxLat],
+        attribution: metadata?.attribution || undefined,
+        url: tileUrl(id),
+      },
+      async getTile(z, x, y) {
+        const tile = await archive.getZxy(z, x, y);
+        return tile ? new Uint8Array(tile.data) : undefined;
+      },
+    };
+  } catch (err) {
+    await file.close();
+    throw err;
+  }
+}
+
+/**
+ * The MBTiles and PMTiles archives in TILES_DIR, served as basemap tiles so
+ * the map works without reaching any tile server.
+ */
+export class TileSources {
+  // Archives that couldn't be opened, with the reason - for the startup log
+  readonly warnings: string[] = [];
+  private archives = new Map<string, TileArchive>();
+
+  list(): TileSourceSummary[] {
+    return Array.from(this.archives.values()).map(archive => archive.summary);
+  }
+
+  /** The tile's bytes and content type, or undefined when the archive or tile doesn't exist. */
+  async getTile(id: string, z: number, x: number, y: number) {
+    const archive = this.archives.get(id);
+    if (!archive) return undefined;
+
+    const data = await archive.getTile(z, x, y);
+    return data ? { data, contentType: CONTENT_TYPES[archive.summary.format] } : undefined;
+  }
+
+  async load(tilesDir: string): Promise<void> {
+    const files = (await fs.promises.readdir(tilesDir)).sort();
+
+    for (const file of files) {
+      const extension = path.extname(file).toLowerCase();
+      if (extension !== ".mbtiles" && extension !== ".pmtiles") continue;
+
+      // The file name is the id; a second archive with the same name keeps its extension
+      let id = path.basename(file, path.extname(file));
+      if (this.archives.has(id)) id = file;
+
+      const filePath = path.join(tilesDir, file);
+      try {
+        const archive = extension === ".mbtiles" ? openMBTiles(filePath, id) : await openPMTiles(filePath, id);
+        this.archives.set(id, archive);
+      } catch (err) {
+        this.warnings.push(`skipping ${file}: ${(err as Error).message}`);
+      }
+    }
+  }
+}
+
+/** Open every archive in `tilesDir`, or none when it isn't set. */
+export async function openTileSources(tilesDir?: string): Promise<TileSources> {
+  const sources = new TileSources();
+  if (tilesDir) await sources.load(tilesDir);
+  return sources;
+}
@@ -0,0 +1,360 @@
+import { Delaunay } from "d3-delaunay";
+
+import { type ClusterMethod } from "./schema";
+import { findColumn, type PointTable } from "./point-table";
+import { GridIndex, kDistances, nearestNeighbours, projectPoints, type ProjectedPoints } from "./neighbours";
+
+// Spatial clustering for points that come without a group column. The cluster
+// each point lands in is added to the table as an ordinary attribute column,
+// so grouping, colouring, the legend and the exports all work as they do with
+// a column from the file. Distances are in metres on a local flat projection.
+
+export interface ClusterOptions {
+    method: ClusterMethod;
+    // DBSCAN's neighbourhood radius in metres - HDBSCAN doesn't need one
+    epsilon: number;
+    // Points a neighbourhood needs to be dense, and the smallest cluster
+    minPoints: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = { method: 'dbscan', epsilon: 100, minPoints: 5 };
+
+// Name of the column the clusters are written to - with a number after it
+// when the points already have a column of that name
+export const CLUSTER_FIELD = 'cluster';
+
+// Label of points that belong to no cluster
+export const NOISE = -1;
+
+// Closer than this, GPS fixes are as good as the same place - keeps stacks of
+// identical points from making infinitely dense clusters of their own
+const MIN_DISTANCE_METERS = 1;
+
+/**
+ * DBSCAN: points with at least `minPoints` others (themselves included) within
+ * `epsilon` metres are core points; core points within reach of each other,
+ * plus the points they reach, form a cluster. Everything else is noise.
+ */
+export function dbscan(points: ProjectedPoints, epsilon: number, minPoints: number): Int32Array {
+    const n = points.xs.length;
+    const UNVISITED = -2;
+    const labels = new Int32Array(n).fill(UNVISITED);
+    const grid = new GridIndex(points, Math.max(epsilon, MIN_DISTANCE_METERS));
+
+    const neighbourhood = (index: number): number[] => {
+        const found: number[] = [];
+        grid.forEachWithin(index, epsilon, other => found.push(other));
+        return found;
+    };
+
+    let clusters = 0;
+    for (let i = 0; i < n; i++) {
+        if (labels[i] !== UNVISITED) continue;
+
+        const seeds = neighbourhood(i);
+        if (seeds.length < minPoints) {
+            labels[i] = NOISE;
+            continue;
+        }
+
+        const cluster = clusters++;
+        labels[i] = cluster;
+        while (seeds.length > 0) {
+            const j = seeds.pop()!;
+            if (labels[j] === NOISE) labels[j] = cluster; // a border point
+            if (labels[j] !== UNVISITED) continue;
+
+            labels[j] = cluster;
+            const reach = neighbourhood(j);
+            if (reach.length >= minPoints) {
+                for (const k of reach) {
+                    if (labels[k] === UNVISITED || labels[k] === NOISE) seeds.push(k);
+                }
+            }
+        }
+    }
+    return labels;
+}
+
+// Candidate edges for the minimum spanning tree, weighted by mutual
+// reachability: the Delaunay edges (which contain the Euclidean spanning
+// tree) plus each point's nearest neighbours
+function reachabilityEdges(points: ProjectedPoints, neighbourCount: number): { from: Uint32Array; to: Uint32Array; weight: Float64Array } {
+    const { xs, ys } = points;
+    const n = xs.length;
+    const neighbours = nearestNeighbours(points, neighbourCount);
+    const core = kDistances(neighbours);
+
+    const from: number[] = [];
+    const to: number[] = [];
+    const addEdge = (a: number, b: number) => {
+        // Triangulating only coincident points leaves placeholder indices
+        if (a === b || !(a >= 0 && a < n && b >= 0 && b < n)) return;
+        from.push(a);
+        to.push(b);
+    };
+
+    const { triangles, halfedges, hull } = Delaunay.from(Array.from(xs, (x, i) => [x, ys[i]]));
+    for (let e = 0; e < triangles.length; e++) {
+        // Each inner edge shows up as two half-edges - take one of them
+        if (e > halfedges[e]) {
+            addEdge(triangles[e], triangles[e % 3 === 2 ? e - 2 : e + 1]);
+        }
+    }
+    // Collinear points have no triangles, only a hull
+    for (let i = 0; i + 1 < hull.length; i++) addEdge(hull[i], hull[i + 1]);
+    for (let i = 0; i < n; i++) {
+        for (let r = 0; r < neighbours.k; r++) addEdge(i, neighbours.indices[i * neighbours.k + r]);
+    }
+
+    const weight = Float64Array.from(from, (a, e) => {
+        const b = to[e];
+        const distance = Math.hypot(xs[b] - xs[a], ys[b] - ys[a]);
+        return Math.max(core[a], core[b], distance, MIN_DISTANCE_METERS);
+    });
+    return { from: Uint32Array.from(from), to: Uint32Array.from(to), weight };
+}
+
+// Union-find root of element i, halving the path on the way
+function findRoot(parent: Int32Array, i: number): number {
+    while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+    }
+    return i;
+}
+
+interface Dendrogram {
+    // Node i < n is point i; node n + m is the m-th merge
+    left: Int32Array;
+    right: Int32Array;
+    distance: Float64Array;
+    size: Uint32Array;
+    root: number;
+}
+
+// Single-linkage merges along the spanning tree (Kruskal). Parts the
+// candidate edges leave apart are joined last, at an infinite distance.
+function singleLinkage(n: number, edges: ReturnType<typeof reachabilityEdges>): Dendrogram {
+    const nodes = 2 * n - 1;
+    const left = new Int32Array(nodes).fill(-1);
+    const right = new Int32Array(nodes).fill(-1);
+    const distance = new Float64Array(nodes);
+    const size = new Uint32Array(nodes).fill(1);
+
+    const parent = Int32Array.from({ length: n }, (_, i) => i);
+    const find = (i: number) => findRoot(parent, i);
+    // Dendrogram node currently standing for each union-find root
+    const nodeOf = Int32Array.from({ length: n }, (_, i) => i);
+
+    let next = n;
+    const merge = (a: number, b: number, at: number) => {
+        const node = next++;
+        left[node] = nodeOf[a];
+        right[node] = nodeOf[b];
+        distance[node] = at;
+        size[node] = size[nodeOf[a]] + size[nodeOf[b]];
+        parent[b] = a;
+        nodeOf[a] = node;
+    };
+
+    const order = Uint32Array.from(edges.weight.keys()).sort((a, b) => edges.weight[a] - edges.weight[b]);
+    for (const e of order) {
+        const a = find(edges.from[e]);
+        const b = find(edges.to[e]);
+        if (a !== b) merge(a, b, edges.weight[e]);
+    }
+    for (let i = 1; i < n; i++) {
+        const a = find(0);
+        const b = find(i);
+        if (a !== b) merge(a, b, Infinity);
+    }
+
+    return { left, right, distance, size, root: next - 1 };
+}
+
+/**
+ * HDBSCAN: builds the single-linkage tree of mutual reachability distances
+ * (core distance = distance to the `minPoints - 1`th neighbour), condenses it
+ * to the splits where both sides keep at least `minPoints` points, and keeps
+ * the most persistent clusters. Finds clusters of differing densities without
+ * an epsilon. The spanning tree is built from Delaunay and nearest-neighbour
+ * edges rather than every pair of points, which keeps it fast on large sets.
+ */
+export function hdbscan(points: ProjectedPoints, minPoints: number): Int32Array {
+    const n = points.xs.length;
+    const labels = new Int32Array(n).fill(NOISE);
+    // A "cluster" of one point would make every point its own cluster
+    minPoints = Math.max(minPoints, 2);
+    if (n < minPoints) return labels;
+
+    const tree = singleLinkage(n, reachabilityEdges(points, Math.min(Math.max(minPoints - 1, 1), n - 1)));
+    const lambda = (node: number) => 1 / tree.distance[node];
+
+    // Condensed tree: clusters in order of creation, so parents come first
+    const clusterParent: number[] = [-1];
+    const birth: number[] = [0];
+    const stability: number[] = [0];
+    const childClusters: number[][] = [[]];
+    // Cluster each point was last in before it fell out
+    const pointCluster = new Int32Array(n);
+
+    const fallOut = (node: number, cluster: number) => {
+        const stack = [node];
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            if (current < n) pointCluster[current] = cluster;
+            else stack.push(tree.left[current], tree.right[current]);
+        }
+    };
+    const newCluster = (parentCluster: number, born: number) => {
+        clusterParent.push(parentCluster);
+        birth.push(born);
+        stability.push(0);
+        childClusters.push([]);
+        childClusters[parentCluster].push(clusterParent.length - 1);
+        return clusterParent.length - 1;
+    };
+
+    const stack: [number, number][] = [[tree.root, 0]];
+    while (stack.length > 0) {
+        const [node, cluster] = stack.pop()!;
+        if (node < n) {
+            pointCluster[node] = cluster;
+            continue;
+        }
+
+        const at = lambda(node);
+        const [a, b] = [tree.left[node], tree.right[node]];
+        const bigA = tree.size[a] >= minPoints;
+        const bigB = tree.size[b] >= minPoints;
+        if (bigA && bigB) {
+            stability[cluster] += (at - birth[cluster]) * tree.size[node];
+            stack.push([a, newCluster(cluster, at)], [b, newCluster(cluster, at)]);
+            continue;
+        }
+        for (const child of [a, b]) {
+            if (tree.size[child] >= minPoints) {
+                stack.push([child, cluster]);
+            } else {
+                stability[cluster] += (at - birth[cluster]) * tree.size[child];
+                fallOut(child, cluster);
+            }
+        }
+    }
+
+    // Keep a cluster when it's more stable than the best of its descendants.
+    // The root only counts when it never splits, so one blob is one cluster.
+    const clusterCount = clusterParent.length;
+    const selected = new Uint8Array(clusterCount);
+    const best = new Float64Array(clusterCount);
+    for (let c = clusterCount - 1; c >= 0; c--) {
+        const children = childClusters[c];
+        const descendants = children.reduce((sum, child) => sum + best[child], 0);
+        if (children.length === 0 || (c !== 0 && stability[c] >= descendants)) {
+            selected[c] = 1;
+            best[c] = stability[c];
+        } else {
+            best[c] = descendants;
+        }
+    }
+
+    // Points belong to the selected cluster at or above the one they fell out of
+    const selectedAncestor = new Int32Array(clusterCount).fill(NOISE);
+    for (let c = 0; c < clusterCount; c++) {
+        const above = c === 0 ? NOISE : selectedAncestor[clusterParent[c]];
+        selectedAncestor[c] = above !== NOISE ? above : selected[c] ? c : NOISE;
+    }
+    for (let i = 0; i < n; i++) labels[i] = selectedAncestor[pointCluster[i]];
+    return labels;
+}
+
+/**
+ * Labels of the areas that gaps of more than `distance` metres separate - the
+ * single-linkage clusters cut at that distance, numbered from 0 in order of
+ * their first point. The Delaunay edges include the shortest link between any
+ * two areas, so they are the only pairs that need checking.
+ */
+export function separateAreas(points: ProjectedPoints, distance: number): Int32Array {
+    const { xs, ys } = points;
+    const n = xs.length;
+    const parent = Int32Array.from({ length: n }, (_, i) => i);
+    const join = (a: number, b: number) => {
+        if (!(a >= 0 && a < n && b >= 0 && b < n)) return;
+        if (Math.hypot(xs[b] - xs[a], ys[b] - ys[a]) <= distance) {
+            parent[findRoot(parent, a)] = findRoot(parent, b);
+        }
+    };
+
+    const { triangles, hull } = Delaunay.from(Array.from(xs, (x, i) => [x, ys[i]]));
+    for (let e = 0; e < triangles.length; e++) {
+        join(triangles[e], triangles[e % 3 === 2 ? e - 2 : e + 1]);
+    }
+    for (let i = 0; i + 1 < hull.length; i++) join(hull[i], hull[i + 1]);
+    // The triangulation leaves out all but one of a stack of identical points
+    const first = new Map<string, number>();
+    for (let i = 0; i < n; i++) {
+        const key = `${xs[i]},${ys[i]}`;
+        const twin = first.get(key);
+        if (twin === undefined) first.set(key, i);
+        else join(i, twin);
+    }
+
+    const labels = new Int32Array(n);
+    const labelOf = new Map<number, number>();
+    for (let i = 0; i < n; i++) {
+        const root = findRoot(parent, i);
+        if (!labelOf.has(root)) labelOf.set(root, labelOf.size);
+        labels[i] = labelOf.get(root)!;
+    }
+    return labels;
+}
+
+/**
+ * Cluster labels for each coordinate - 0 for the biggest cluster, 1 for the
+ * next and so on, NOISE for points in none.
+ */
+export function clusterPoints(coordinates: [number, number][], { method, epsilon, minPoints }: ClusterOptions): Int32Array {
+    const points = projectPoints(coordinates);
+    const labels = method === 'hdbscan' ? hdbscan(points, minPoints) : dbscan(points, epsilon, minPoints);
+
+    const sizes = new Map<number, number>();
+    labels.forEach(label => {
+        if (label !== NOISE) sizes.set(label, (sizes.get(label) ?? 0) + 1);
+    });
+    const rank = new Map(Array.from(sizes.keys())
+        .sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b)
+        .map((label, i) => [label, i]));
+    return labels.map(label => (label === NOISE ? NOISE : rank.get(label)!));
+}
+
+/**
+ * The table with the clusters as a column of their own, replacing any earlier
+ * clustering but never a column read from the file: it is named CLUSTER_FIELD,
+ * or "cluster_2", "cluster_3"... if that name is taken. Clusters are numbered
+ * from 1; noise points get no value.
+ */
+export function withClusterColumn(table: PointTable, labels: Int32Array): { table: PointTable; field: string } {
+    const previous = table.columns.find(column => column.clustered);
+    let field = previous?.name ?? CLUSTER_FIELD;
+    for (let n = 2; !previous && findColumn(table, field); n++) {
+        field = `${CLUSTER_FIELD}_${n}`;
+    }
+
+    const count = labels.reduce((max, label) => Math.max(max, label + 1), 0);
+    const column = {
+        name: field,
+        values: [undefined, ...Array.from({ length: count }, (_, i) => i + 1)],
+        codes: Uint32Array.from(labels, label => label + 1),
+        clustered: true,
+    };
+    return {
+        table: {
+            ...table,
+            columns: previous
+                ? table.columns.map(existing => (existing === previous ? column : existing))
+                : [...table.columns, column],
+        },
+        field,
+    };
+}
@@ -0,0 +1,242 @@
+import proj4 from 'proj4';
+
+// Coordinate notations beyond plain decimal numbers: degrees-minutes-seconds,
+// decimal minutes and hemisphere letters for a single value, and single
+// columns holding a whole position ("lat, lon" pairs, WKT points, geohashes
+// and MGRS references).
+
+export type Axis = 'lat' | 'lon';
+
+export interface Angle {
+    value: number;
+    // Axis named by a hemisphere letter (N/S = latitude, E/W = longitude)
+    axis: Axis | null;
+}
+
+// Formats of a single column holding both coordinates
+export type CoordinateFormat = 'pair' | 'wkt' | 'geohash' | 'mgrs';
+
+export const COORDINATE_FORMATS: { value: CoordinateFormat; label: string; example: string }[] = [
+    { value: 'pair', label: 'Lat, lon pair', example: '40.7128, -74.0060' },
+    { value: 'wkt', label: 'WKT point', example: 'POINT(-74.0060 40.7128)' },
+    { value: 'geohash', label: 'Geohash', example: 'dr5regw3p' },
+    { value: 'mgrs', label: 'MGRS', example: '18T WL 83357 07196' },
+];
+
+const HEMISPHERES: Record<string, { sign: 1 | -1; axis: Axis }> = {
+    N: { sign: 1, axis: 'lat' },
+    S: { sign: -1, axis: 'lat' },
+    E: { sign: 1, axis: 'lon' },
+    W: { sign: -1, axis: 'lon' },
+};
+
+// Degree, minute and second marks, including the look-alikes spreadsheets
+// and phones substitute for them
+const ANGLE_SEPARATORS = /\s*[°º˚:'′’‘"″”]+\s*|\s+/;
+const ANGLE_MARKS = /[°º˚:'′’‘"″”]/;
+const SCIENTIFIC = /^[-+]?\d+(?:[.,]\d+)?e[-+]?\d+$/i;
+const SPACE_THOUSANDS = /^[-+]?\d{1,3}(?:\s\d{3})+(?:[.,]\d+)?$/;
+
+/**
+ * Whether a value is written as an angle rather than a plain (possibly
+ * locale-formatted) number: it has degree/minute/second marks, a hemisphere
+ * letter, or space-separated parts that aren't thousands groups.
+ */
+export function looksLikeAngle(text: string): boolean {
+    const value = text.trim();
+    if (SCIENTIFIC.test(value)) return false;
+    return ANGLE_MARKS.test(value) ||
+        /^[NSEW]|[NSEW]$/i.test(value) ||
+        (/\d\s+\d/.test(value) && !SPACE_THOUSANDS.test(value));
+}
+
+/**
+ * Parse one coordinate written as decimal degrees, degrees-minutes-seconds
+ * (40°26'46"N), degrees and decimal minutes (40°26.767') or with a leading or
+ * trailing hemisphere letter (W 73.98). Returns null when it isn't an angle.
+ */
+export function parseAngle(text: string): Angle | null {
+    let value = text.trim().toUpperCase();
+    let hemisphere: string | null = null;
+
+    const leading = /^([NSEW])\s*(.*)$/.exec(value);
+    const trailing = /^(.*?)\s*([NSEW])$/.exec(value);
+    if (leading) {
+        [, hemisphere, value] = leading;
+    } else if (trailing) {
+        [, value, hemisphere] = trailing;
+    }
+
+    let sign = 1;
+    if (value.startsWith('-') || value.startsWith('+')) {
+        sign = value.startsWith('-') ? -1 : 1;
+        value = value.slice(1);
+    }
+
+    const parts = value.split(ANGLE_SEPARATORS).filter(Boolean);
+    if (parts.length === 0 || parts.length > 3) return null;
+
+    // Only the last part may have decimals; a comma is a decimal separator here
+    const numbers: number[] = [];
+    for (let i = 0; i < parts.length; i++) {
+        const pattern = i === parts.length - 1 ? /^\d+(?:[.,]\d+)?$/ : /^\d+$/;
+        if (!pattern.test(parts[i])) return null;
+        numbers.push(Number(parts[i].replace(',', '.')));
+    }
+
+    const [degrees, minutes = 0, seconds = 0] = numbers;
+    if (degrees > 180 || minutes >= 60 || seconds >= 60) return null;
+
+    const magnitude = degrees + minutes / 60 + seconds / 3600;
+    if (hemisphere) {
+        // "-73.98 W" and "73.98 W" mean the same thing
+        return { value: HEMISPHERES[hemisphere].sign * magnitude, axis: HEMISPHERES[hemisphere].axis };
+    }
+    return { value: sign * magnitude, axis: null };
+}
+
+/** The axis a value's hemisphere letter names, if it has one. */
+export function hemisphereAxis(value: any): Axis | null {
+    if (typeof value !== 'string' || !/^\s*[NSEW]|[NSEW]\s*$/i.test(value)) return null;
+    return parseAngle(value)?.axis ?? null;
+}
+
+/**
+ * Split a "lat, lon" field into its two halves. Semicolons and ", " are tried
+ * before a bare comma so "40,71; -74,00" keeps its decimal commas.
+ */
+function splitPair(value: string): [string, string] | null {
+    const candidates = [
+        value.split(';'),
+        value.split(/,\s+/),
+        value.split(','),
+        value.split(/(?<=[NSEW])\s+/i),
+        value.split(/\s+/),
+    ];
+    const pair = candidates.find(parts => parts.length === 2 && parts.every(part => part.trim() !== ''));
+    return pair ? [pair[0].trim(), pair[1].trim()] : null;
+}
+
+function parsePair(value: string): [number, number] | null {
+    const halves = splitPair(value.trim().replace(/^[([{]\s*|\s*[)\]}]$/g, ''));
+    if (!halves) return null;
+
+    const [first, second] = halves.map(half => parseAngle(half));
+    if (!first || !second) return null;
+
+    // Written as "lat, lon" unless hemisphere letters or the ranges say otherwise
+    const lonFirst =
+        first.axis === 'lon' || second.axis === 'lat' ||
+        (first.axis === null && second.axis === null && Math.abs(first.value) > 90 && Math.abs(second.value) <= 90);
+
+    return lonFirst ? [first.value, second.value] : [second.value, first.value];
+}
+
+const WKT_POINT = /^\s*(?:SRID=\d+\s*;\s*)?POINT\s*(?:Z|M|ZM)?\s*\(\s*([-+\d.eE]+)\s+([-+\d.eE]+)(?:\s+[-+\d.eE]+){0,2}\s*\)\s*$/i;
+
+function parseWktPoint(value: string): [number, number] | null {
+    const match = WKT_POINT.exec(value);
+    if (!match) return null;
+    const x = Number(match[1]);
+    const y = Number(match[2]);
+    return Number.isFinite(x) && Number.isFinite(y) ? [x, y] : null;
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/** Decode a geohash to the centre of its cell as [lon, lat]. */
+export function decodeGeohash(hash: string): [number, number] | null {
+    const value = hash.trim().toLowerCase();
+    if (value.length === 0 || value.length > 12) return null;
+
+    const lon = [-180, 180];
+    const lat = [-90, 90];
+    let isLon = true;
+
+    for (const char of value) {
+        const bits = GEOHASH_ALPHABET.indexOf(char);
+        if (bits === -1) return null;
+
+        for (let bit = 4; bit >= 0; bit--) {
+            const range = isLon ? lon : lat;
+            const mid = (range[0] + range[1]) / 2;
+            if ((bits >> bit) & 1) {
+                range[0] = mid;
+            } else {
+                range[1] = mid;
+            }
+            isLon = !isLon;
+        }
+    }
+
+    return [(lon[0] + lon[1]) / 2, (lat[0] + lat[1]) / 2];
+}
+
+const MGRS_REFERENCE = /^\d{1,2}[C-HJ-NP-X][A-HJ-NP-Z]{2}(?:\d{2}|\d{4}|\d{6}|\d{8}|\d{10})?$/;
+
+/** Convert an MGRS reference to the centre of its square as [lon, lat]. */
+export function parseMgrs(reference: string): [number, number] | null {
+    const value = reference.replace(/\s+/g, '').toUpperCase();
+    if (!MGRS_REFERENCE.test(value)) return null;
+    try {
+        const [lon, lat] = proj4.mgrs.toPoint(value);
+        return Number.isFinite(lon) && Number.isFinite(lat) ? [lon, lat] : null;
+    } catch {
+        // mgrs throws plain strings for references it can't convert
+        return null;
+    }
+}
+
+/**
+ * Parse a single field holding a whole position, as [x, y]. WKT points keep
+ * their x/y as written so they can still be reprojected; every other format
+ * is lon/lat.
+ */
+export function parseCoordinateField(value: any, format: CoordinateFormat): [number, number] | null {
+    if (value === undefined || value === null || String(value).trim() === '') {
+        return null;
+    }
+    const text = String(value);
+
+    switch (format) {
+        case 'pair':
+            return parsePair(text);
+        case 'wkt':
+            return parseWktPoint(text);
+        case 'geohash':
+            return decodeGeohash(text);
+        case 'mgrs':
+            return parseMgrs(text);
+    }
+}
+
+// Column names that say which single-column format to expect
+const FORMAT_NAME_HINTS: [RegExp, CoordinateFormat][] = [
+    [/geohash|^gh$/i, 'geohash'],
+    [/mgrs|usng/i, 'mgrs'],
+    [/wkt|^(the_)?geom(etry)?$/i, 'wkt'],
+    [/^(lat_?lo?ng?|latlon|coord(inate)?s?|location|position|point|gps)$/i, 'pair'],
+];
+
+/**
+ * Work out which single-column format a column's sample values are written
+ * in. Geohashes are only recognised in a column named for them, and unnamed
+ * pairs need decimals or degree marks, so ordinary codes and decimal-comma
+ * numbers aren't mistaken for positions.
+ */
+export function detectCoordinateFormat(values: any[], columnName = ''): CoordinateFormat | null {
+    const samples = values
+        .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+        .map(String);
+    const hinted = FORMAT_NAME_HINTS.find(([pattern]) => pattern.test(columnName))?.[1];
+
+    if (samples.length === 0) return hinted ?? null;
+
+    const matches = (format: CoordinateFormat) => samples.every(value => parseCoordinateField(value, format) !== null);
+    if (hinted && matches(hinted)) return hinted;
+
+    if (matches('wkt')) return 'wkt';
+    if (matches('mgrs')) return 'mgrs';
+    if (matches('pair') && samples.every(value => /[.°]/.test(value))) return 'pair';
+    return null;
+}
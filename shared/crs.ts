@@ -0,0 +1,308 @@
+import proj4 from "proj4";
+
+// Coordinate reference systems for projected input data. Points are always
+// held in WGS84 lon/lat; these definitions reproject them on import and back
+// to the source CRS on export.
+//
+// A CRS is identified by a string that travels through worker messages and
+// saved mappings: either "EPSG:<code>" for one of the systems listed below, or
+// a custom proj4 / WKT definition pasted by the user.
+
+export const WGS84 = "EPSG:4326";
+
+export interface CRSDefinition {
+    code: string;
+    name: string;
+    proj4: string;
+    // ESRI-flavoured WKT for the shapefile .prj - missing for custom proj4 strings
+    wkt?: string;
+    // Projected extent [minX, minY, maxX, maxY] used to guess the CRS from values
+    extent?: [number, number, number, number];
+}
+
+export type Transform = (x: number, y: number) => [number, number];
+
+const GCS_WGS84 = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+const GCS_ETRS89 = 'GEOGCS["GCS_ETRS_1989",DATUM["D_ETRS_1989",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+// Eastings stay within ~170-830 km of a zone's false easting
+const UTM_NORTH_EXTENT: [number, number, number, number] = [100000, 0, 900000, 9400000];
+const UTM_SOUTH_EXTENT: [number, number, number, number] = [100000, 1000000, 900000, 10000000];
+
+function utmDefinition(zone: number, south: boolean, datum: "WGS84" | "ETRS89"): CRSDefinition {
+    const hemisphere = south ? "S" : "N";
+    const centralMeridian = zone * 6 - 183;
+    const falseNorthing = south ? 10000000 : 0;
+    const code = datum === "WGS84"
+        ? `EPSG:${(south ? 32700 : 32600) + zone}`
+        : `EPSG:${25800 + zone}`;
+    const wktName = datum === "WGS84"
+        ? `WGS_1984_UTM_Zone_${zone}${hemisphere}`
+        : `ETRS_1989_UTM_Zone_${zone}N`;
+
+    return {
+        code,
+        name: `${datum === "WGS84" ? "WGS 84" : "ETRS89"} / UTM zone ${zone}${hemisphere}`,
+        proj4: `+proj=utm +zone=${zone}${south ? " +south" : ""} ` +
+            `${datum === "WGS84" ? "+datum=WGS84" : "+ellps=GRS80 +towgs84=0,0,0,0,0,0,0"} +units=m +no_defs`,
+        wkt: `PROJCS["${wktName}",${datum === "WGS84" ? GCS_WGS84 : GCS_ETRS89},` +
+            `PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",500000.0],` +
+            `PARAMETER["False_Northing",${falseNorthing}.0],PARAMETER["Central_Meridian",${centralMeridian}.0],` +
+            `PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]`,
+        extent: south ? UTM_SOUTH_EXTENT : UTM_NORTH_EXTENT,
+    };
+}
+
+export const UTM_ZONES = Array.from({ length: 60 }, (_, i) => i + 1);
+
+export const NATIONAL_GRIDS: CRSDefinition[] = [
+    {
+        code: "EPSG:27700",
+        name: "British National Grid (OSGB36)",
+        proj4: "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy " +
+            "+towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs",
+        wkt: 'PROJCS["British_National_Grid",GEOGCS["GCS_OSGB_1936",DATUM["D_OSGB_1936",SPHEROID["Airy_1830",6377563.396,299.3249646]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",400000.0],PARAMETER["False_Northing",-100000.0],PARAMETER["Central_Meridian",-2.0],PARAMETER["Scale_Factor",0.9996012717],PARAMETER["Latitude_Of_Origin",49.0],UNIT["Meter",1.0]]',
+        extent: [0, 0, 700000, 1300000],
+    },
+    {
+        code: "EPSG:2157",
+        name: "Irish Transverse Mercator (IRENET95)",
+        proj4: "+proj=tmerc +lat_0=53.5 +lon_0=-8 +k=0.99982 +x_0=600000 +y_0=750000 +ellps=GRS80 " +
+            "+towgs84=0,0,0,0,0,0,0 +units=m +no_defs",
+        wkt: 'PROJCS["IRENET95_Irish_Transverse_Mercator",GEOGCS["GCS_IRENET95",DATUM["D_IRENET95",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",600000.0],PARAMETER["False_Northing",750000.0],PARAMETER["Central_Meridian",-8.0],PARAMETER["Scale_Factor",0.99982],PARAMETER["Latitude_Of_Origin",53.5],UNIT["Meter",1.0]]',
+        extent: [400000, 500000, 800000, 1000000],
+    },
+    {
+        code: "EPSG:2154",
+        name: "RGF93 / Lambert-93 (France)",
+        proj4: "+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80 " +
+            "+towgs84=0,0,0,0,0,0,0 +units=m +no_defs",
+        wkt: 'PROJCS["RGF_1993_Lambert_93",GEOGCS["GCS_RGF_1993",DATUM["D_RGF_1993",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Lambert_Conformal_Conic"],PARAMETER["False_Easting",700000.0],PARAMETER["False_Northing",6600000.0],PARAMETER["Central_Meridian",3.0],PARAMETER["Standard_Parallel_1",49.0],PARAMETER["Standard_Parallel_2",44.0],PARAMETER["Latitude_Of_Origin",46.5],UNIT["Meter",1.0]]',
+        extent: [100000, 6000000, 1300000, 7200000],
+    },
+    {
+        code: "EPSG:28992",
+        name: "Amersfoort / RD New (Netherlands)",
+        proj4: "+proj=sterea +lat_0=52.1561605555556 +lon_0=5.38763888888889 +k=0.9999079 +x_0=155000 +y_0=463000 " +
+            "+ellps=bessel +towgs84=565.4171,50.3319,465.5524,1.9342,-1.6677,9.1019,4.0725 +units=m +no_defs",
+        wkt: 'PROJCS["RD_New",GEOGCS["GCS_Amersfoort",DATUM["D_Amersfoort",SPHEROID["Bessel_1841",6377397.155,299.1528128]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Double_Stereographic"],PARAMETER["False_Easting",155000.0],PARAMETER["False_Northing",463000.0],PARAMETER["Central_Meridian",5.38763888888889],PARAMETER["Scale_Factor",0.9999079],PARAMETER["Latitude_Of_Origin",52.15616055555555],UNIT["Meter",1.0]]',
+        extent: [-7000, 289000, 300000, 629000],
+    },
+    {
+        code: "EPSG:2056",
+        name: "CH1903+ / LV95 (Switzerland)",
+        proj4: "+proj=somerc +lat_0=46.9524055555556 +lon_0=7.43958333333333 +k_0=1 +x_0=2600000 +y_0=1200000 " +
+            "+ellps=bessel +towgs84=674.374,15.056,405.346,0,0,0,0 +units=m +no_defs",
+        wkt: 'PROJCS["CH1903+_LV95",GEOGCS["GCS_CH1903+",DATUM["D_CH1903+",SPHEROID["Bessel_1841",6377397.155,299.1528128]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Hotine_Oblique_Mercator_Azimuth_Center"],PARAMETER["False_Easting",2600000.0],PARAMETER["False_Northing",1200000.0],PARAMETER["Scale_Factor",1.0],PARAMETER["Azimuth",90.0],PARAMETER["Longitude_Of_Center",7.439583333333333],PARAMETER["Latitude_Of_Center",46.95240555555556],UNIT["Meter",1.0]]',
+        extent: [2480000, 1070000, 2840000, 1300000],
+    },
+    {
+        code: "EPSG:2193",
+        name: "NZGD2000 / New Zealand Transverse Mercator",
+        proj4: "+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 +ellps=GRS80 " +
+            "+towgs84=0,0,0,0,0,0,0 +units=m +no_defs",
+        wkt: 'PROJCS["NZGD_2000_New_Zealand_Transverse_Mercator",GEOGCS["GCS_NZGD_2000",DATUM["D_NZGD_2000",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",1600000.0],PARAMETER["False_Northing",10000000.0],PARAMETER["Central_Meridian",173.0],PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]',
+        extent: [1000000, 4700000, 2200000, 6300000],
+    },
+    {
+        code: "EPSG:3035",
+        name: "ETRS89 / LAEA Europe",
+        proj4: "+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 +ellps=GRS80 " +
+            "+towgs84=0,0,0,0,0,0,0 +units=m +no_defs",
+        wkt: 'PROJCS["ETRS_1989_LAEA",GEOGCS["GCS_ETRS_1989",DATUM["D_ETRS_1989",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Lambert_Azimuthal_Equal_Area"],PARAMETER["False_Easting",4321000.0],PARAMETER["False_Northing",3210000.0],PARAMETER["Central_Meridian",10.0],PARAMETER["Latitude_Of_Origin",52.0],UNIT["Meter",1.0]]',
+        extent: [1000000, 1000000, 8000000, 5500000],
+    },
+    {
+        code: "EPSG:3857",
+        name: "WGS 84 / Pseudo-Mercator (Web Mercator)",
+        proj4: "+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +no_defs",
+        wkt: 'PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",' + GCS_WGS84 + ',PROJECTION["Mercator_Auxiliary_Sphere"],PARAMETER["False_Easting",0.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",0.0],PARAMETER["Standard_Parallel_1",0.0],PARAMETER["Auxiliary_Sphere_Type",0.0],UNIT["Meter",1.0]]',
+        extent: [-20037508.34, -20048966.1, 20037508.34, 20048966.1],
+    },
+];
+
+const GEOGRAPHIC: CRSDefinition = {
+    code: WGS84,
+    name: "WGS 84 (longitude / latitude)",
+    proj4: "+proj=longlat +datum=WGS84 +no_defs",
+    wkt: GCS_WGS84,
+    extent: [-180, -90, 180, 90],
+};
+
+const REGISTRY = new Map<string, CRSDefinition>(
+    [
+        GEOGRAPHIC,
+        ...NATIONAL_GRIDS,
+        ...UTM_ZONES.flatMap(zone => [utmDefinition(zone, false, "WGS84"), utmDefinition(zone, true, "WGS84")]),
+        // ETRS89 UTM zones used across Europe (EPSG:25828-25838)
+        ...UTM_ZONES.filter(zone => zone >= 28 && zone <= 38).map(zone => utmDefinition(zone, false, "ETRS89")),
+    ].map(def => [def.code, def])
+);
+
+export function utmCode(zone: number, south: boolean): string {
+    return `EPSG:${(south ? 32700 : 32600) + zone}`;
+}
+
+/** The zone and hemisphere of a WGS84 UTM code, or null for any other CRS. */
+export function parseUtmCode(code: string): { zone: number; south: boolean } | null {
+    const epsg = Number(/^EPSG:(\d+)$/.exec(code)?.[1]);
+    if (epsg > 32600 && epsg <= 32660) return { zone: epsg - 32600, south: false };
+    if (epsg > 32700 && epsg <= 32760) return { zone: epsg - 32700, south: true };
+    return null;
+}
+
+/**
+ * Look up a CRS by "EPSG:<code>" (or a bare number), or accept a pasted proj4
+ * string or WKT definition. Returns null for unknown codes and definitions
+ * proj4 can't read.
+ */
+export function resolveCRS(input: string | null | undefined): CRSDefinition | null {
+    const value = input?.trim();
+    if (!value) return null;
+
+    const epsg = /^(?:EPSG:?)?\s*(\d{4,5})$/i.exec(value);
+    if (epsg) {
+        return REGISTRY.get(`EPSG:${epsg[1]}`) ?? null;
+    }
+
+    // A .prj written by this app (or matching it exactly) maps back to its code
+    const known = Array.from(REGISTRY.values()).find(def => def.wkt === value);
+    if (known) return known;
+
+    try {
+        proj4(value, GEOGRAPHIC.proj4);
+    } catch {
+        return null;
+    }
+
+    const isWkt = /^(PROJCS|GEOGCS|PROJCRS|GEOGCRS)\[/i.test(value);
+    const name = isWkt ? /^\w+\["([^"]+)"/.exec(value)?.[1] ?? "Custom (WKT)" : "Custom (proj4)";
+    return { code: value, name, proj4: value, wkt: isWkt ? value : undefined };
+}
+
+export function isGeographic(crs: string | null | undefined): boolean {
+    return !crs || resolveCRS(crs)?.code === WGS84;
+}
+
+/** Transform from the given CRS to WGS84 lon/lat, or null when none is needed. */
+export function createTransform(crs: string | null | undefined): Transform | null {
+    if (isGeographic(crs)) return null;
+    const def = resolveCRS(crs);
+    if (!def) {
+        throw new Error(`Unknown coordinate reference system "${crs}"`);
+    }
+    const converter = proj4(def.proj4, GEOGRAPHIC.proj4);
+    return (x, y) => converter.forward([x, y]) as [number, number];
+}
+
+/** Transform from WGS84 lon/lat back to the given CRS, or null for WGS84 itself. */
+export function createInverseTransform(crs: string | null | undefined): Transform | null {
+    if (isGeographic(crs)) return null;
+    const def = resolveCRS(crs);
+    if (!def) {
+        throw new Error(`Unknown coordinate reference system "${crs}"`);
+    }
+    const converter = proj4(def.proj4, GEOGRAPHIC.proj4);
+    return (lon, lat) => converter.inverse([lon, lat]) as [number, number];
+}
+
+export interface CRSGuess {
+    // Best match, or null when the values fit none of the listed systems
+    code: string | null;
+    // The values look like UTM, whose zone can't be told from the values alone
+    utmHemisphere?: "N" | "S";
+}
+
+function fitsExtent(samples: [number, number][], extent: [number, number, number, number]): boolean {
+    const [minX, minY, maxX, maxY] = extent;
+    return samples.every(([x, y]) => x >= minX && x <= maxX && y >= minY && y <= maxY);
+}
+
+/**
+ * Guess the CRS of sample x/y values from their ranges. Values that fit
+ * lon/lat either way round stay WGS84 (swapped columns are reported after
+ * parsing); otherwise the previously used systems are tried first, then the
+ * national grids from the most to the least specific extent, then UTM.
+ */
+export function guessCRS(samples: [number, number][], recent: string[] = []): CRSGuess {
+    const swapped = samples.map(([x, y]): [number, number] => [y, x]);
+    if (samples.length === 0 || fitsExtent(samples, GEOGRAPHIC.extent!) || fitsExtent(swapped, GEOGRAPHIC.extent!)) {
+        return { code: WGS84 };
+    }
+
+    const recentFit = recent
+        .map(code => resolveCRS(code))
+        .find(def => def?.extent && fitsExtent(samples, def.extent));
+    if (recentFit) {
+        return { code: recentFit.code };
+    }
+
+    const area = ([minX, minY, maxX, maxY]: [number, number, number, number]) => (maxX - minX) * (maxY - minY);
+    const grids = NATIONAL_GRIDS
+        .filter(def => fitsExtent(samples, def.extent!))
+        .sort((a, b) => area(a.extent!) - area(b.extent!));
+
+    // A national grid narrower than a UTM zone is the more specific match;
+    // continental and world-wide systems only win when UTM doesn't fit
+    const specific = grids.find(def => area(def.extent!) < area(UTM_NORTH_EXTENT));
+    if (specific) {
+        return { code: specific.code };
+    }
+    if (fitsExtent(samples, UTM_NORTH_EXTENT)) {
+        return { code: null, utmHemisphere: "N" };
+    }
+    if (fitsExtent(samples, UTM_SOUTH_EXTENT)) {
+        return { code: null, utmHemisphere: "S" };
+    }
+    return { code: grids[0]?.code ?? null };
+}
+
+/** Human-readable label for a CRS string, e.g. for toasts and export options. */
+export function describeCRS(crs: string | null | undefined): string {
+    const def = resolveCRS(crs ?? WGS84);
+    if (!def) return String(crs);
+    return def.code.startsWith("EPSG:") ? `${def.name} (${def.code})` : def.name;
+}
+
+/**
+ * Read a CRS name as written in files: "EPSG:27700", the legacy GeoJSON
+ * "urn:ogc:def:crs:EPSG::27700" form, or OGC CRS84 for plain lon/lat.
+ */
+export function crsFromName(name: string | null | undefined): string | null {
+    if (!name) return null;
+    if (/CRS84$/i.test(name)) return WGS84;
+    const epsg = /EPSG:+(\d+)$/i.exec(name);
+    return epsg ? resolveCRS(epsg[1])?.code ?? null : null;
+}
+
+function transformPositions(coordinates: any, transform: Transform): any {
+    if (typeof coordinates[0] === "number") {
+        return transform(coordinates[0], coordinates[1]);
+    }
+    return coordinates.map((child: any) => transformPositions(child, transform));
+}
+
+/**
+ * Reproject a WGS84 FeatureCollection into the given CRS for export. Non-WGS84
+ * output is tagged with the legacy GeoJSON "crs" member so GIS tools read it
+ * in the right system.
+ */
+export function reprojectFeatureCollection<T extends { features: { geometry: { coordinates: any } }[] }>(
+    collection: T,
+    crs: string,
+): T {
+    const transform = createInverseTransform(crs);
+    if (!transform) return collection;
+
+    const def = resolveCRS(crs)!;
+    return {
+        ...collection,
+        ...(def.code.startsWith("EPSG:") && {
+            crs: { type: "name", properties: { name: `urn:ogc:def:crs:EPSG::${def.code.slice(5)}` } },
+        }),
+        features: collection.features.map(feature => ({
+            ...feature,
+            geometry: { ...feature.geometry, coordinates: transformPositions(feature.geometry.coordinates, transform) },
+        })),
+    };
+}
@@ -0,0 +1,461 @@
+import Papa from "papaparse";
+import { type CSVPoint } from "./schema";
+import { type Transform } from "./crs";
+import {
+    detectCoordinateFormat,
+    hemisphereAxis,
+    looksLikeAngle,
+    parseAngle,
+    parseCoordinateField,
+    type CoordinateFormat,
+} from "./coordinate-formats";
+
+// Column detection and coordinate parsing shared by the browser CSV worker and
+// the headless CLI, so both accept the same files the same way.
+
+export interface DetectedColumns {
+    longitude: string | null;
+    latitude: string | null;
+    group: string | null;
+    // A single column holding both coordinates, used instead of longitude/latitude
+    coordinates?: string | null;
+    coordinateFormat?: CoordinateFormat;
+}
+
+export type RejectReason = 'missing' | 'invalid' | 'out-of-range' | 'reprojection' | 'unsupported-geometry';
+
+export const REJECT_REASON_LABELS: Record<RejectReason, string> = {
+    'missing': 'Missing coordinates',
+    'invalid': 'Unparseable coordinates',
+    'out-of-range': 'Out of range',
+    'reprojection': 'Could not be reprojected',
+    'unsupported-geometry': 'Not a point',
+};
+
+export type RowResult =
+    | { point: CSVPoint; error?: undefined }
+    | {
+        point?: undefined;
+        error: string;
+        reason: RejectReason;
+        // Out of range as written, but valid with longitude and latitude exchanged
+        swappable?: boolean;
+    };
+
+// A rejected row with its values as read, so it can be fixed and uploaded again
+export interface RejectedRow {
+    row: number; // 1-based data row (or feature) number, not counting the header
+    reason: RejectReason;
+    error: string;
+    values: Record<string, any>;
+}
+
+export interface ParseRowOptions {
+    // Reprojects projected x/y to lon/lat
+    transform?: Transform | null;
+    // Exchange longitude and latitude - decided for the whole dataset, never per row
+    swap?: boolean;
+}
+
+export interface ValidationStats {
+    totalRows: number;
+    validRows: number;
+    rejectedRows: number;
+    rejectedByReason: Partial<Record<RejectReason, number>>;
+    // Rejected rows that would be valid with longitude and latitude exchanged
+    swappableRows: number;
+    // Most rows are only valid exchanged, so the columns themselves look swapped
+    swapSuggested: boolean;
+    swapApplied: boolean;
+}
+
+// Column name patterns for flexible matching
+const LONGITUDE_PATTERNS = [
+    /^lon$/i, /^lng$/i, /^long$/i, /^longitude$/i,
+    /^x$/i, /^xcoord$/i, /^x_coord$/i, /^x-coord$/i,
+    /^easting$/i, /^east$/i,
+    // Whole words inside longer names ("pickup_lon", "gps lng", "pickupLong")
+    // but not substrings of other words ("longest_stay", "salon")
+    /(^|[^a-z])(lon|lng|long|longitude)([^a-z]|$)/i,
+    /[a-z](Lon|Lng|Long|Longitude)([^a-z]|$)/,
+    /^coord.*x/i, /x.*coord/i,
+];
+
+const LATITUDE_PATTERNS = [
+    /^lat$/i, /^latitude$/i,
+    /^y$/i, /^ycoord$/i, /^y_coord$/i, /^y-coord$/i,
+    /^northing$/i, /^north$/i,
+    // Whole words only, so "translation" or "plateau" don't match
+    /(^|[^a-z])(lat|latitude)([^a-z]|$)/i,
+    /[a-z](Lat|Latitude)([^a-z]|$)/,
+    /^coord.*y/i, /y.*coord/i,
+];
+
+const GROUP_PATTERNS = [
+    // Only look for explicitly named group columns
+    /^activitygroupid$/i, /^activity_group_id$/i, /^activitygroup$/i,
+    /^groupid$/i, /^group_id$/i, /^group$/i,
+    /^category$/i, /^class$/i, /^type$/i,
+    /^zone$/i, /^region$/i, /^area$/i,
+    /^district$/i, /^sector$/i, /^cluster$/i,
+];
+
+function findMatchingColumn(
+    columns: string[],
+    patterns: RegExp[],
+    accept: (col: string) => boolean = () => true,
+): string | null {
+    // Try exact matches first (patterns at the start of the list are more specific)
+    for (const pattern of patterns) {
+        for (const col of columns) {
+            if (pattern.test(col) && accept(col)) {
+                return col;
+            }
+        }
+    }
+    return null;
+}
+
+/** Whether the columns locate each row, either as a lon/lat pair or one combined column. */
+export function hasCoordinateColumns(columns: DetectedColumns): boolean {
+    return !!columns.coordinates ||
+        (!!columns.longitude && !!columns.latitude && columns.longitude !== columns.latitude);
+}
+
+/**
+ * Find a single column holding whole positions ("lat, lon", WKT, geohash or
+ * MGRS), trying columns named for it before the rest.
+ */
+function findCoordinateColumn(
+    columns: string[],
+    sampleRows: Record<string, any>[],
+): { column: string; format: CoordinateFormat } | null {
+    const named = columns.filter(col => detectCoordinateFormat([], col) !== null);
+    const candidates = sampleRows.length > 0
+        ? [...named, ...columns.filter(col => !named.includes(col))]
+        : named;
+
+    for (const column of candidates) {
+        const format = detectCoordinateFormat(sampleRows.map(row => row[column]), column);
+        if (format) {
+            return { column, format };
+        }
+    }
+    return null;
+}
+
+/**
+ * Detect the coordinate and group columns from the header names. When sample
+ * rows are given, a coordinate candidate is only accepted if at least one of
+ * its sample values parses as a number. Files without a longitude/latitude
+ * pair are checked for a single combined coordinate column.
+ */
+export function detectColumns(columns: string[], sampleRows: Record<string, any>[] = []): DetectedColumns {
+    const hasNumericSamples = (col: string) =>
+        sampleRows.length === 0 || sampleRows.some(row => parseCoordinate(row[col]) !== null);
+
+    // Detect longitude column (REQUIRED)
+    const longitude = findMatchingColumn(columns, LONGITUDE_PATTERNS, hasNumericSamples);
+
+    // Detect latitude column (REQUIRED)
+    const latitude = findMatchingColumn(
+        columns.filter(col => col !== longitude),
+        LATITUDE_PATTERNS,
+        hasNumericSamples,
+    );
+
+    if (!longitude || !latitude) {
+        const combined = findCoordinateColumn(columns, sampleRows);
+        if (combined) {
+            return {
+                longitude: null,
+                latitude: null,
+                group: findMatchingColumn(columns.filter(col => col !== combined.column), GROUP_PATTERNS),
+                coordinates: combined.column,
+                coordinateFormat: combined.format,
+            };
+        }
+    }
+
+    // Detect group column (OPTIONAL - skip coordinate columns)
+    const nonCoordColumns = columns.filter(col =>
+        col !== longitude && col !== latitude
+    );
+    const group = findMatchingColumn(nonCoordColumns, GROUP_PATTERNS);
+    // If no group column found, just use null (will default to "default" value)
+    // All other columns are preserved as extra properties
+
+    return { longitude, latitude, group };
+}
+
+export function missingColumnsMessage(columns: string[]): string {
+    return `Could not detect coordinate columns. ` +
+        `Available columns: ${columns.join(', ')}. ` +
+        `Please ensure your CSV has columns for longitude (e.g., lon, lng, longitude, x) ` +
+        `and latitude (e.g., lat, latitude, y), or one column of "lat, lon" pairs, ` +
+        `WKT points, geohashes or MGRS references.`;
+}
+
+export function parseCoordinate(value: any): number | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+
+    // Convert to string and normalize
+    let strValue = String(value).trim();
+
+    // Degrees-minutes-seconds, decimal minutes and hemisphere letters
+    if (looksLikeAngle(strValue)) {
+        return parseAngle(strValue)?.value ?? null;
+    }
+
+    // Handle common locale formats:
+    // - European format: "1.234,56" -> "1234.56"
+    // - Spaces as thousands separator: "1 234.56" -> "1234.56"
+    // - Comma as decimal: "1234,56" -> "1234.56"
+
+    // Remove spaces
+    strValue = strValue.replace(/\s/g, '');
+
+    // If there's both comma and period, determine which is decimal
+    const hasComma = strValue.includes(',');
+    const hasPeriod = strValue.includes('.');
+
+    if (hasComma && hasPeriod) {
+        // Both present - assume the last one is decimal separator
+        const lastComma = strValue.lastIndexOf(',');
+        const lastPeriod = strValue.lastIndexOf('.');
+
+        if (lastComma > lastPeriod) {
+            // Comma is decimal separator (European format: 1.234,56)
+            strValue = strValue.replace(/\./g, '').replace(',', '.');
+        } else {
+            // Period is decimal separator (US format: 1,234.56)
+            strValue = strValue.replace(/,/g, '');
+        }
+    } else if (hasComma && !hasPeriod) {
+        // Only comma - could be decimal separator
+        // Check if it's likely a thousands separator (more than 3 digits after comma)
+        const parts = strValue.split(',');
+        if (parts.length === 2 && parts[1].length <= 3) {
+            // Likely decimal separator
+            strValue = strValue.replace(',', '.');
+        } else {
+            // Likely thousands separator
+            strValue = strValue.replace(/,/g, '');
+        }
+    }
+
+    const num = Number(strValue);
+    return Number.isFinite(num) ? num : null;
+}
+
+/** The x/y pairs of the given rows that parse as numbers, for guessing the CRS. */
+export function sampleCoordinates(rows: Record<string, any>[], columns: DetectedColumns): [number, number][] {
+    if (columns.coordinates) {
+        return rows
+            .map(row => parseCoordinateField(row[columns.coordinates!], columns.coordinateFormat ?? 'pair'))
+            .filter((pair): pair is [number, number] => pair !== null);
+    }
+    if (!columns.longitude || !columns.latitude) return [];
+    return rows
+        .map(row => [parseCoordinate(row[columns.longitude!]), parseCoordinate(row[columns.latitude!])])
+        .filter((pair): pair is [number, number] => pair[0] !== null && pair[1] !== null);
+}
+
+/**
+ * Turn one parsed CSV row into a point, keeping every non-coordinate column.
+ * Coordinates come from a longitude/latitude column pair or from a single
+ * combined column in one of the formats in coordinate-formats. Projected
+ * x/y values are reprojected to lon/lat with the given transform. Rows that
+ * can't be parsed or are out of range return an error and its reason instead;
+ * out-of-range rows note whether they'd be valid swapped, so swapped columns
+ * can be decided for the whole dataset.
+ */
+export function parseRow(
+    row: Record<string, any>,
+    columns: DetectedColumns,
+    rowIndex: number,
+    { transform, swap = false }: ParseRowOptions = {},
+): RowResult {
+    // A single combined column is read whole; WKT may hold projected x/y but
+    // the other formats are always lon/lat
+    if (columns.coordinates) {
+        const raw = row[columns.coordinates];
+        if (isBlank(raw)) {
+            return {
+                error: `Row ${rowIndex + 1}: Missing coordinates (${columns.coordinates} is empty)`,
+                reason: 'missing',
+            };
+        }
+        const position = parseCoordinateField(raw, columns.coordinateFormat ?? 'pair');
+        if (!position) {
+            return {
+                error: `Row ${rowIndex + 1}: Invalid coordinates (${columns.coordinates}="${raw}")`,
+                reason: 'invalid',
+            };
+        }
+        return toPoint(row, [columns.coordinates], swap ? [position[1], position[0]] : position, rowIndex,
+            columns.coordinateFormat === 'wkt' ? transform : null);
+    }
+
+    const lonCol = columns.longitude!;
+    const latCol = columns.latitude!;
+
+    // Get coordinate values using detected columns
+    const longitudeRaw = row[lonCol];
+    const latitudeRaw = row[latCol];
+
+    if (isBlank(longitudeRaw) || isBlank(latitudeRaw)) {
+        const empty = [isBlank(longitudeRaw) && lonCol, isBlank(latitudeRaw) && latCol].filter(Boolean);
+        return {
+            error: `Row ${rowIndex + 1}: Missing coordinates (${empty.join(' and ')} empty)`,
+            reason: 'missing',
+        };
+    }
+
+    // Parse coordinates with locale-aware parsing
+    let longitude = parseCoordinate(longitudeRaw);
+    let latitude = parseCoordinate(latitudeRaw);
+
+    if (longitude === null || latitude === null) {
+        return {
+            error: `Row ${rowIndex + 1}: Invalid coordinates ` +
+                `(${lonCol}="${longitudeRaw}", ${latCol}="${latitudeRaw}")`,
+            reason: 'invalid',
+        };
+    }
+
+    // Hemisphere letters name the axis explicitly, so trust them over the
+    // columns and over a dataset-level swap
+    const lonAxis = hemisphereAxis(longitudeRaw);
+    const latAxis = hemisphereAxis(latitudeRaw);
+    if (lonAxis === 'lat' || latAxis === 'lon') {
+        [longitude, latitude] = [latitude, longitude];
+    } else if (swap && !lonAxis && !latAxis) {
+        [longitude, latitude] = [latitude, longitude];
+    }
+
+    return toPoint(row, [lonCol, latCol], [longitude, latitude], rowIndex, transform);
+}
+
+function isBlank(value: any): boolean {
+    return value === undefined || value === null || String(value).trim() === '';
+}
+
+function inRange(longitude: number, latitude: number): boolean {
+    return longitude >= -180 && longitude <= 180 && latitude >= -90 && latitude <= 90;
+}
+
+/**
+ * Range-check (or reproject) a parsed position and build the point, keeping
+ * every column except the ones the coordinates were read from.
+ */
+function toPoint(
+    row: Record<string, any>,
+    coordinateCols: string[],
+    [x, y]: [number, number],
+    rowIndex: number,
+    transform?: Transform | null,
+): RowResult {
+    let longitude = x;
+    let latitude = y;
+
+    if (transform) {
+        [longitude, latitude] = transform(x, y);
+
+        if (!Number.isFinite(longitude) || !Number.isFinite(latitude) ||
+            longitude < -180 || longitude > 180 || latitude < -90 || latitude > 90) {
+            return {
+                error: `Row ${rowIndex + 1}: Coordinates could not be reprojected (x=${x}, y=${y})`,
+                reason: 'reprojection',
+            };
+        }
+    } else if (!inRange(longitude, latitude)) {
+        // Rows are never swapped one by one - swappable rows are counted so
+        // the whole dataset can be checked for swapped columns
+        const swappable = inRange(latitude, longitude);
+        return {
+            error: `Row ${rowIndex + 1}: Coordinates out of range ` +
+                `(lon=${longitude}, lat=${latitude})${swappable ? ' - longitude and latitude look swapped' : ''}`,
+            reason: 'out-of-range',
+            swappable,
+        };
+    }
+
+    // Create point with all CSV columns preserved
+    const point: CSVPoint = {
+        id: `point-${rowIndex}`,
+        longitude,
+        latitude,
+        // Include all original columns from the CSV (except lon/lat which are normalized)
+        ...Object.keys(row).reduce((acc, key) => {
+            // Skip only the coordinate columns we've already extracted
+            if (!coordinateCols.includes(key)) {
+                acc[key] = row[key];
+            }
+            return acc;
+        }, {} as Record<string, any>)
+    };
+
+    return { point };
+}
+
+export function createValidationStats(swapApplied = false): ValidationStats {
+    return {
+        totalRows: 0,
+        validRows: 0,
+        rejectedRows: 0,
+        rejectedByReason: {},
+        swappableRows: 0,
+        swapSuggested: false,
+        swapApplied,
+    };
+}
+
+/** Count one parsed row. Call finishValidationStats once every row is in. */
+export function recordRow(stats: ValidationStats, result: RowResult): void {
+    stats.totalRows++;
+    if (result.error === undefined) {
+        stats.validRows++;
+        return;
+    }
+    stats.rejectedRows++;
+    stats.rejectedByReason[result.reason] = (stats.rejectedByReason[result.reason] ?? 0) + 1;
+    if (result.swappable) {
+        stats.swappableRows++;
+    }
+}
+
+/**
+ * Decide whether the dataset's longitude and latitude look swapped: more rows
+ * are valid exchanged than as written. A few swappable rows among many valid
+ * ones are typos, not swapped columns, and stay rejected.
+ */
+export function finishValidationStats(stats: ValidationStats): ValidationStats {
+    stats.swapSuggested = !stats.swapApplied && stats.swappableRows > stats.validRows;
+    return stats;
+}
+
+/**
+ * Write rejected rows back out as CSV: the original columns in their original
+ * order, then the row number and reason, so the file can be fixed and uploaded
+ * again (the extra columns come along as ordinary attributes).
+ */
+export function rejectedRowsToCSV(rejected: RejectedRow[], columns: string[] = []): string {
+    const fieldSet = new Set(columns);
+    for (const { values } of rejected) {
+        Object.keys(values).forEach(key => fieldSet.add(key));
+    }
+    const fields = Array.from(fieldSet);
+
+    return Papa.unparse({
+        fields: [...fields, 'rejected_row', 'rejected_reason', 'rejected_error'],
+        data: rejected.map(({ row, reason, error, values }) => [
+            ...fields.map(field => values[field] ?? ''),
+            row,
+            REJECT_REASON_LABELS[reason],
+            error,
+        ]),
+    });
+}
@@ -0,0 +1,98 @@
+// Measurements on the sphere for [longitude, latitude] coordinates in degrees,
+// using the mean Earth radius. Good to a fraction of a percent, which is all
+// an inspector readout or a distance threshold needs.
+
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+const METERS_PER_DEGREE = (EARTH_RADIUS_METERS * Math.PI) / 180;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance in metres between two points (haversine). */
+export function distanceMeters(lng1: number, lat1: number, lng2: number, lat2: number): number {
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Area in square metres enclosed by a ring, open or closed, whichever way it
+ * winds (spherical excess, after Chamberlain & Duquette).
+ */
+export function ringAreaSquareMeters(ring: [number, number][]): number {
+    const n = ring.length;
+    if (n < 3) return 0;
+
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+        const [lng1, lat1] = ring[i];
+        const [lng2, lat2] = ring[(i + 1) % n];
+        total += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+    }
+    return Math.abs((total * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2);
+}
+
+/** Length in metres around a ring, closing it if it isn't already closed. */
+export function ringPerimeterMeters(ring: [number, number][]): number {
+    const n = ring.length;
+    if (n < 2) return 0;
+
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+        const [lng1, lat1] = ring[i];
+        const [lng2, lat2] = ring[(i + 1) % n];
+        total += distanceMeters(lng1, lat1, lng2, lat2);
+    }
+    return total;
+}
+
+/**
+ * Area-weighted centroid of a ring as [longitude, latitude], treating degrees
+ * as planar - fine for anything smaller than a continent. Degenerate rings
+ * fall back to the mean of their vertices.
+ */
+export function ringCentroid(ring: [number, number][]): [number, number] {
+    const n = ring.length;
+    let area = 0;
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0; i < n; i++) {
+        // Relative to the first vertex, to keep the cross products small
+        const x1 = ring[i][0] - ring[0][0];
+        const y1 = ring[i][1] - ring[0][1];
+        const x2 = ring[(i + 1) % n][0] - ring[0][0];
+        const y2 = ring[(i + 1) % n][1] - ring[0][1];
+        const cross = x1 * y2 - x2 * y1;
+        area += cross;
+        cx += (x1 + x2) * cross;
+        cy += (y1 + y2) * cross;
+    }
+
+    if (Math.abs(area) < 1e-18) {
+        const sum = ring.reduce(([sx, sy], [x, y]) => [sx + x, sy + y], [0, 0]);
+        return n > 0 ? [sum[0] / n, sum[1] / n] : [0, 0];
+    }
+    return [ring[0][0] + cx / (3 * area), ring[0][1] + cy / (3 * area)];
+}
+
+export interface LocalProjection {
+    forward(coordinate: [number, number]): [number, number];
+    inverse(point: [number, number]): [number, number];
+}
+
+/**
+ * Equirectangular projection in metres centred on the mean position of the
+ * coordinates - accurate to well under a percent across a city or a district.
+ */
+export function localProjection(coordinates: [number, number][]): LocalProjection {
+    const lng0 = coordinates.reduce((sum, [lng]) => sum + lng, 0) / coordinates.length;
+    const lat0 = coordinates.reduce((sum, [, lat]) => sum + lat, 0) / coordinates.length;
+    const kx = METERS_PER_DEGREE * Math.cos(toRadians(lat0));
+    const ky = METERS_PER_DEGREE;
+    return {
+        forward: ([lng, lat]) => [(lng - lng0) * kx, (lat - lat0) * ky],
+        inverse: ([x, y]) => [lng0 + x / kx, lat0 + y / ky],
+    };
+}
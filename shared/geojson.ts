@@ -0,0 +1,102 @@
+import { type GeoJSONFeature, type GeoJSONFeatureCollection, type Polygon } from "./schema";
+
+type Ring = [number, number][];
+
+/**
+ * A polygon's parts, each as its rings with the outer ring first. Polygons
+ * without `parts` are one part of one ring.
+ */
+export function polygonParts(polygon: Polygon): Ring[][] {
+  return polygon.parts ?? [[polygon.coordinates]];
+}
+
+// Ensure a ring is closed (first and last coordinates must be equal)
+function closeRing(ring: Ring): Ring {
+  const coords = [...ring];
+  const firstCoord = coords[0];
+  const lastCoord = coords[coords.length - 1];
+
+  if (firstCoord[0] !== lastCoord[0] || firstCoord[1] !== lastCoord[1]) {
+    coords.push([...firstCoord]);
+  }
+  return coords;
+}
+
+/**
+ * Convert generated polygons to a GeoJSON FeatureCollection for export.
+ * Parts and holes with fewer than 3 coordinates are skipped and every ring is
+ * closed (first and last coordinates equal), as GIS tools require. Polygons
+ * of more than one part become MultiPolygons.
+ */
+export function polygonsToFeatureCollection(polygons: Polygon[]): GeoJSONFeatureCollection {
+  const features: GeoJSONFeature[] = polygons
+    .map(polygon => ({
+      polygon,
+      parts: polygonParts(polygon)
+        .filter(([outer]) => outer.length >= 3)
+        .map(rings => rings.filter(ring => ring.length >= 3).map(closeRing)),
+    }))
+    .filter(({ polygon, parts }) => {
+      // Skip invalid polygons with less than 3 coordinates
+      if (parts.length === 0) {
+        console.warn(`Skipping polygon ${polygon.id} with less than 3 coordinates`);
+        return false;
+      }
+      return true;
+    })
+    .map(({ polygon, parts }) => ({
+      type: "Feature" as const,
+      geometry: parts.length === 1
+        ? { type: "Polygon" as const, coordinates: parts[0] }
+        : { type: "MultiPolygon" as const, coordinates: parts },
+      properties: {
+        // Export all properties from the polygon (includes all CSV attributes)
+        groupId: polygon.groupId,
+        groupField: polygon.groupField,
+        id: polygon.id,
+        ...(polygon.properties || {}),
+      },
+    }));
+
+  return {
+    type: "FeatureCollection" as const,
+    features,
+  };
+}
+
+// Twice the signed area, treating degrees as planar - positive for
+// counter-clockwise rings
+function signedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return area;
+}
+
+function wound(ring: Ring, clockwise: boolean): Ring {
+  return (signedArea(ring) < 0) === clockwise ? ring : [...ring].reverse();
+}
+
+/**
+ * The collection ready for shp-write: every geometry as a MultiPolygon, and
+ * rings wound the way Shapefile readers tell holes apart - outer rings
+ * clockwise, holes counter-clockwise (the opposite of GeoJSON). shp-write
+ * writes neither fix itself, and puts Polygon and MultiPolygon features in
+ * separate files of the same name, so a mix of both would lose one of them.
+ */
+export function forShapefile<T extends GeoJSONFeatureCollection>(collection: T): T {
+  return {
+    ...collection,
+    features: collection.features.map(feature => {
+      const parts = feature.geometry.type === "Polygon" ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+      return {
+        ...feature,
+        geometry: {
+          type: "MultiPolygon" as const,
+          coordinates: parts.map(rings => rings.map((ring, i) => wound(ring, i === 0))),
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,139 @@
+import { Delaunay } from "d3-delaunay";
+import polygonClipping, { type MultiPolygon, type Ring } from "polygon-clipping";
+
+import { ringAreaSquareMeters } from "./geodesy";
+import { pointInRing } from "./hulls";
+import { medianSpacing, projectPoints } from "./neighbours";
+
+// Interior holes for hull polygons: the empty stretches inside a group where
+// there are no points for much further than usual - a lake, a park, a fenced
+// yard. Spacing is measured in metres on a local flat projection, and the
+// holes' corners are the group's own points.
+
+// Expected number of gaps a random scatter may show by chance and still have
+// none of them taken for holes
+const CHANCE_GAPS = 0.05;
+
+// Whether segments ab and cd cross or touch
+function segmentsMeet(a: [number, number], b: [number, number], c: [number, number], d: [number, number]): boolean {
+    const side = (p: [number, number], q: [number, number], r: [number, number]) =>
+        Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+    const onSegment = (p: [number, number], q: [number, number], r: [number, number]) =>
+        Math.min(p[0], q[0]) <= r[0] && r[0] <= Math.max(p[0], q[0]) &&
+        Math.min(p[1], q[1]) <= r[1] && r[1] <= Math.max(p[1], q[1]);
+
+    const abc = side(a, b, c), abd = side(a, b, d), cda = side(c, d, a), cdb = side(c, d, b);
+    if (abc !== abd && cda !== cdb && abc !== 0 && abd !== 0 && cda !== 0 && cdb !== 0) return true;
+    return (abc === 0 && onSegment(a, b, c)) || (abd === 0 && onSegment(a, b, d)) ||
+        (cda === 0 && onSegment(c, d, a)) || (cdb === 0 && onSegment(c, d, b));
+}
+
+/**
+ * Whether a triangle lies strictly inside the ring: every corner inside and
+ * off it, and no edge of the ring touching or crossing the triangle's. The
+ * corners are group points, which no ring edge passes between unnoticed.
+ */
+function strictlyInside(corners: [number, number][], ring: [number, number][], ringVertices: Set<string>): boolean {
+    if (corners.some(corner => ringVertices.has(`${corner[0]},${corner[1]}`) || !pointInRing(corner, ring))) {
+        return false;
+    }
+    for (let i = 0; i + 1 < ring.length; i++) {
+        for (let j = 0; j < 3; j++) {
+            if (segmentsMeet(ring[i], ring[i + 1], corners[j], corners[(j + 1) % 3])) return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * The polygon `outer` with the group's large empty interior areas cut out, as
+ * polygons of closed rings (outer ring first, then its holes). An area is
+ * empty where the circumcircles of the points' Delaunay triangles - the
+ * largest circles that fit between the points - are more than `spacing` times
+ * the median distance between neighbouring points across. Only empty areas
+ * that lie strictly inside `outer` are cut - those reaching the outline are
+ * bays, not holes, and are left to the hull. However low `spacing` is set,
+ * gaps no wider than a random scatter of the same points would leave by
+ * chance are never cut.
+ */
+export function cutHoles(coordinates: [number, number][], outer: [number, number][], spacing: number): MultiPolygon {
+    const solid: MultiPolygon = [[outer]];
+    if (coordinates.length < 4) return solid;
+
+    const points = projectPoints(coordinates);
+    const { xs, ys } = points;
+    const nearest = medianSpacing(points);
+    // Stacked points have no spacing to go by
+    if (!(nearest > 0)) return solid;
+    // Scattered at random, half the points have a neighbour within `nearest`,
+    // so a circle of radius R is empty with odds 2^-(R/nearest)²; across the
+    // 2n or so Delaunay circles that makes CHANCE_GAPS empty ones at
+    const chanceRadius = nearest * Math.sqrt(Math.log2((2 * coordinates.length) / CHANCE_GAPS));
+    const minRadius = Math.max((spacing * nearest) / 2, chanceRadius);
+
+    const { triangles, halfedges } = Delaunay.from(Array.from(xs, (x, i) => [x, ys[i]]));
+    const triangleCount = triangles.length / 3;
+    const area = new Float64Array(triangleCount);
+    const empty = new Uint8Array(triangleCount);
+    for (let t = 0; t < triangleCount; t++) {
+        const [a, b, c] = [triangles[3 * t], triangles[3 * t + 1], triangles[3 * t + 2]];
+        const ab = Math.hypot(xs[b] - xs[a], ys[b] - ys[a]);
+        const bc = Math.hypot(xs[c] - xs[b], ys[c] - ys[b]);
+        const ca = Math.hypot(xs[a] - xs[c], ys[a] - ys[c]);
+        area[t] = Math.abs((xs[b] - xs[a]) * (ys[c] - ys[a]) - (xs[c] - xs[a]) * (ys[b] - ys[a])) / 2;
+        empty[t] = area[t] > 0 && (ab * bc * ca) / (4 * area[t]) > minRadius ? 1 : 0;
+    }
+
+    // Gather the empty triangles into connected areas. One on the edge of the
+    // triangulation opens onto the outside; one smaller than the empty circle
+    // it stands for is a gap between scattered points, not a hole.
+    const minArea = Math.PI * minRadius * minRadius;
+    const ringVertices = new Set(outer.map(([x, y]) => `${x},${y}`));
+    const seen = new Uint8Array(triangleCount);
+    const holes: MultiPolygon = [];
+    for (let start = 0; start < triangleCount; start++) {
+        if (!empty[start] || seen[start]) continue;
+
+        const members: number[] = [];
+        const queue = [start];
+        seen[start] = 1;
+        let open = false;
+        let holeArea = 0;
+        while (queue.length > 0) {
+            const t = queue.pop()!;
+            members.push(t);
+            holeArea += area[t];
+            for (let e = 3 * t; e < 3 * t + 3; e++) {
+                const opposite = halfedges[e];
+                if (opposite === -1) {
+                    open = true;
+                    continue;
+                }
+                const neighbour = Math.floor(opposite / 3);
+                if (empty[neighbour] && !seen[neighbour]) {
+                    seen[neighbour] = 1;
+                    queue.push(neighbour);
+                }
+            }
+        }
+
+        if (open || holeArea < minArea) continue;
+        const cornersOf = (t: number) => [triangles[3 * t], triangles[3 * t + 1], triangles[3 * t + 2]].map(i => coordinates[i]);
+        if (!members.every(t => strictlyInside(cornersOf(t), outer, ringVertices))) continue;
+        for (const t of members) {
+            const corners = cornersOf(t);
+            holes.push([[...corners, corners[0]] as Ring]);
+        }
+    }
+
+    if (holes.length === 0) return solid;
+
+    // Non-empty triangles fenced in by empty ones come out as islands - keep
+    // the main polygon, and only islands and holes as big as a hole must be
+    const [main, ...islands] = polygonClipping.difference([outer], holes)
+        .sort((a, b) => ringAreaSquareMeters(b[0]) - ringAreaSquareMeters(a[0]));
+    if (!main) return solid;
+    return [main, ...islands]
+        .filter(polygon => polygon === main || ringAreaSquareMeters(polygon[0]) >= minArea)
+        .map(([outline, ...cutOut]) => [outline, ...cutOut.filter(hole => ringAreaSquareMeters(hole) >= minArea)]);
+}
@@ -0,0 +1,228 @@
+import { Delaunay } from "d3-delaunay";
+import polygonClipping, { type MultiPolygon, type Ring } from "polygon-clipping";
+
+import { localProjection, type LocalProjection } from "./geodesy";
+
+// Footprint methods other than concaveman's concave hull. Each takes a group's
+// [longitude, latitude] coordinates and returns its footprint as polygons of
+// closed rings (outer ring first, then any holes). The metre-based methods
+// work on a local flat projection around the group, which is accurate to well
+// under a percent across a city or a district.
+
+// Corners of each buffer circle - enough that the union looks round
+const BUFFER_SEGMENTS = 16;
+
+function closeRing(ring: [number, number][]): [number, number][] {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// Twice the signed area - positive for clockwise rings, negative for counter-clockwise
+function signedArea(ring: [number, number][]): number {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+    }
+    return area;
+}
+
+/** Whether a point lies inside a ring (even-odd rule) - points on the edge can go either way. */
+export function pointInRing([x, y]: [number, number], ring: [number, number][]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/** Smallest convex polygon around the points (Andrew's monotone chain). */
+export function convexHull(coordinates: [number, number][]): MultiPolygon {
+    const sorted = Array.from(coordinates).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+        (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+    const lower: [number, number][] = [];
+    for (const point of sorted) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+        lower.push(point);
+    }
+    const upper: [number, number][] = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        const point = sorted[i];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+        upper.push(point);
+    }
+
+    const hull = [...lower.slice(0, -1), ...upper.slice(0, -1)];
+    return hull.length >= 3 ? [[closeRing(hull)]] : [];
+}
+
+/**
+ * Alpha shape: the union of the Delaunay triangles whose circumcircle is no
+ * wider than `radiusMeters`. Smaller radii follow the points more tightly and
+ * can split a group into several parts or leave holes.
+ */
+export function alphaShape(coordinates: [number, number][], radiusMeters: number): MultiPolygon {
+    const projection = localProjection(coordinates);
+    const points = coordinates.map(projection.forward);
+    const { triangles } = Delaunay.from(points);
+
+    // Directed boundary edges, "from,to" by point index. Delaunay triangles
+    // all wind the same way, so an edge shared by two kept triangles appears
+    // once in each direction and cancels out.
+    const edges = new Map<number, number[]>();
+    const removeEdge = (from: number, to: number) => {
+        const targets = edges.get(from);
+        const at = targets?.indexOf(to) ?? -1;
+        if (at === -1) return false;
+        targets!.splice(at, 1);
+        if (targets!.length === 0) edges.delete(from);
+        return true;
+    };
+
+    for (let t = 0; t < triangles.length; t += 3) {
+        const [a, b, c] = [triangles[t], triangles[t + 1], triangles[t + 2]];
+        const [ax, ay] = points[a];
+        const [bx, by] = points[b];
+        const [cx, cy] = points[c];
+        const ab = Math.hypot(bx - ax, by - ay);
+        const bc = Math.hypot(cx - bx, cy - by);
+        const ca = Math.hypot(ax - cx, ay - cy);
+        const area = Math.abs((bx - ax) * (cy - ay) - (cx - ax) * (by - ay)) / 2;
+        if (area === 0 || (ab * bc * ca) / (4 * area) > radiusMeters) continue;
+
+        for (const [from, to] of [[a, b], [b, c], [c, a]]) {
+            if (!removeEdge(to, from)) {
+                const targets = edges.get(from);
+                if (targets) targets.push(to);
+                else edges.set(from, [to]);
+            }
+        }
+    }
+
+    // Walk the boundary edges into rings
+    const rings: [number, number][][] = [];
+    while (edges.size > 0) {
+        const start = edges.keys().next().value as number;
+        const ring: [number, number][] = [];
+        let from = start;
+        do {
+            ring.push(points[from]);
+            const to = edges.get(from)![0];
+            removeEdge(from, to);
+            from = to;
+        } while (from !== start && edges.has(from));
+        if (ring.length >= 3) rings.push(ring);
+    }
+
+    // Rings winding the same way as the triangles are outer boundaries, the
+    // others are holes inside one of them
+    const orientation = Math.sign(signedArea(triangles.length >= 3
+        ? [points[triangles[0]], points[triangles[1]], points[triangles[2]]]
+        : []));
+    const outers = rings.filter(ring => Math.sign(signedArea(ring)) === orientation);
+    const holes = rings.filter(ring => Math.sign(signedArea(ring)) !== orientation);
+
+    const polygons: [number, number][][][] = outers.map(outer => [outer]);
+    for (const hole of holes) {
+        const owner = polygons.find(([outer]) => hole.some(point => pointInRing(point, outer)));
+        owner?.push(hole);
+    }
+
+    return polygons.map(polygon => polygon.map(ring => closeRing(ring.map(projection.inverse))));
+}
+
+// Round to the centimetre - polygon-clipping's sweep line can fail on
+// vertices a few ulps apart, which overlapping shapes produce plenty of
+const roundCm = (value: number) => Math.round(value * 100) / 100;
+
+// Union shapes in metres, a pair at a time - one sweep over thousands of
+// overlapping shapes is both slower and more fragile than a tree of small ones
+function unionAll(shapes: Ring[][]): MultiPolygon {
+    let parts: MultiPolygon[] = shapes.map(shape => [shape]);
+    while (parts.length > 1) {
+        const merged: MultiPolygon[] = [];
+        for (let i = 0; i < parts.length; i += 2) {
+            merged.push(i + 1 < parts.length ? polygonClipping.union(parts[i], parts[i + 1]) : parts[i]);
+        }
+        parts = merged;
+    }
+    return parts[0] ?? [];
+}
+
+function unprojectAll(multiPolygon: MultiPolygon, projection: LocalProjection): MultiPolygon {
+    return multiPolygon.map(polygon => polygon.map(ring => ring.map(projection.inverse)));
+}
+
+/**
+ * Every point buffered by `radiusMeters`, merged into one footprint. Points
+ * are first snapped to a grid a quarter of the radius wide, so thousands of
+ * overlapping circles don't all go through the union.
+ */
+export function bufferUnion(coordinates: [number, number][], radiusMeters: number): MultiPolygon {
+    const projection = localProjection(coordinates);
+    const cell = radiusMeters / 4;
+    const centres = new Map<string, [number, number]>();
+    for (const coordinate of coordinates) {
+        const [x, y] = projection.forward(coordinate);
+        const key = `${Math.round(x / cell)},${Math.round(y / cell)}`;
+        if (!centres.has(key)) centres.set(key, [Math.round(x / cell) * cell, Math.round(y / cell) * cell]);
+    }
+
+    const circles = Array.from(centres.values()).map(([cx, cy]): Ring[] => {
+        const ring: [number, number][] = [];
+        for (let i = 0; i < BUFFER_SEGMENTS; i++) {
+            const angle = (i / BUFFER_SEGMENTS) * 2 * Math.PI;
+            ring.push([roundCm(cx + radiusMeters * Math.cos(angle)), roundCm(cy + radiusMeters * Math.sin(angle))]);
+        }
+        return [closeRing(ring)];
+    });
+
+    return unprojectAll(unionAll(circles), projection);
+}
+
+/**
+ * The hexagonal cells (of circumradius `radiusMeters`) that contain at least
+ * one point, merged into one footprint.
+ */
+export function hexbinFootprint(coordinates: [number, number][], radiusMeters: number): MultiPolygon {
+    const projection = localProjection(coordinates);
+    const size = radiusMeters;
+
+    // Occupied cells in axial coordinates (pointy-top hexagons)
+    const cells = new Map<string, [number, number]>();
+    for (const coordinate of coordinates) {
+        const [x, y] = projection.forward(coordinate);
+        const fq = ((Math.sqrt(3) / 3) * x - y / 3) / size;
+        const fr = ((2 / 3) * y) / size;
+        // Round in cube coordinates, fixing whichever component moved most
+        let q = Math.round(fq);
+        let r = Math.round(fr);
+        const s = Math.round(-fq - fr);
+        const dq = Math.abs(q - fq);
+        const dr = Math.abs(r - fr);
+        const ds = Math.abs(s + fq + fr);
+        if (dq > dr && dq > ds) q = -r - s;
+        else if (dr > ds) r = -q - s;
+        cells.set(`${q},${r}`, [q, r]);
+    }
+
+    // Corners sit on a lattice of (√3/2 · size, size/2) steps; working them out
+    // from integer lattice positions gives neighbouring cells bit-identical
+    // shared corners, so the union has no slivers
+    const CORNERS: [number, number][] = [[1, 1], [0, 2], [-1, 1], [-1, -1], [0, -2], [1, -1]];
+    const hexagons = Array.from(cells.values()).map(([q, r]): Ring[] => {
+        const i = 2 * q + r;
+        const j = 3 * r;
+        const ring = CORNERS.map(([di, dj]): [number, number] =>
+            [roundCm(((i + di) * Math.sqrt(3) * size) / 2), roundCm(((j + dj) * size) / 2)]);
+        return [closeRing(ring)];
+    });
+
+    return unprojectAll(unionAll(hexagons), projection);
+}
@@ -0,0 +1,219 @@
+import { localProjection } from "./geodesy";
+
+// Neighbour searches over a set of [longitude, latitude] coordinates, in metres
+// on a local flat projection: a square grid for everything within a fixed
+// radius, and a k-d tree for the nearest few points, however unevenly the
+// points are spread.
+
+export interface ProjectedPoints {
+    xs: Float64Array;
+    ys: Float64Array;
+}
+
+export function projectPoints(coordinates: [number, number][]): ProjectedPoints {
+    const projection = localProjection(coordinates);
+    const xs = new Float64Array(coordinates.length);
+    const ys = new Float64Array(coordinates.length);
+    coordinates.forEach((coordinate, i) => {
+        [xs[i], ys[i]] = projection.forward(coordinate);
+    });
+    return { xs, ys };
+}
+
+/** Points bucketed into square cells, for finding everything within a radius. */
+export class GridIndex {
+    readonly cellSize: number;
+    private points: ProjectedPoints;
+    private cells = new Map<string, number[]>();
+
+    constructor(points: ProjectedPoints, cellSize: number) {
+        this.points = points;
+        this.cellSize = cellSize;
+        const { xs, ys } = points;
+        for (let i = 0; i < xs.length; i++) {
+            const key = this.key(this.cellOf(xs[i]), this.cellOf(ys[i]));
+            const members = this.cells.get(key);
+            if (members) members.push(i);
+            else this.cells.set(key, [i]);
+        }
+    }
+
+    private cellOf(value: number): number {
+        return Math.floor(value / this.cellSize);
+    }
+
+    private key(cx: number, cy: number): string {
+        return `${cx},${cy}`;
+    }
+
+    /** Every point in the cells exactly `ring` cells from (cx, cy) - the edge of the square, not its inside. */
+    private forEachInRing(cx: number, cy: number, ring: number, visit: (index: number) => void): void {
+        for (let dx = -ring; dx <= ring; dx++) {
+            const step = Math.abs(dx) === ring ? 1 : 2 * ring;
+            for (let dy = -ring; dy <= ring; dy += step) {
+                this.cells.get(this.key(cx + dx, cy + dy))?.forEach(visit);
+            }
+        }
+    }
+
+    /** Every point (the point itself included) within `radius` metres of point `index`. */
+    forEachWithin(index: number, radius: number, visit: (other: number) => void): void {
+        const { xs, ys } = this.points;
+        const x = xs[index];
+        const y = ys[index];
+        const rings = Math.ceil(radius / this.cellSize);
+        const cx = this.cellOf(x);
+        const cy = this.cellOf(y);
+        for (let ring = 0; ring <= rings; ring++) {
+            this.forEachInRing(cx, cy, ring, other => {
+                if (Math.hypot(xs[other] - x, ys[other] - y) <= radius) visit(other);
+            });
+        }
+    }
+}
+
+export interface Neighbours {
+    k: number;
+    // Point i's neighbours are at [i * k, (i + 1) * k), nearest first
+    indices: Uint32Array;
+    distances: Float64Array;
+}
+
+// Points per leaf of the k-d tree
+const LEAF_SIZE = 16;
+
+/**
+ * Static 2-d tree over the points, stored implicitly: each range's middle
+ * element splits it, alternating between x and y by depth.
+ */
+class KDTree {
+    readonly ids: Uint32Array;
+    readonly xs: Float64Array;
+    readonly ys: Float64Array;
+
+    constructor({ xs, ys }: ProjectedPoints) {
+        this.ids = Uint32Array.from({ length: xs.length }, (_, i) => i);
+        this.xs = Float64Array.from(xs);
+        this.ys = Float64Array.from(ys);
+        const ranges: [number, number, number][] = [[0, xs.length - 1, 0]];
+        while (ranges.length > 0) {
+            const [left, right, axis] = ranges.pop()!;
+            if (right - left <= LEAF_SIZE) continue;
+            const middle = (left + right) >> 1;
+            this.select(middle, left, right, axis);
+            ranges.push([left, middle - 1, 1 - axis], [middle + 1, right, 1 - axis]);
+        }
+    }
+
+    private value(i: number, axis: number): number {
+        return axis === 0 ? this.xs[i] : this.ys[i];
+    }
+
+    private swap(i: number, j: number): void {
+        [this.ids[i], this.ids[j]] = [this.ids[j], this.ids[i]];
+        [this.xs[i], this.xs[j]] = [this.xs[j], this.xs[i]];
+        [this.ys[i], this.ys[j]] = [this.ys[j], this.ys[i]];
+    }
+
+    // Quickselect (Hoare partitioning, which copes with runs of equal values):
+    // puts the k-th smallest value along the axis at k, smaller ones before it
+    private select(k: number, left: number, right: number, axis: number): void {
+        while (right > left) {
+            const pivot = this.value(k, axis);
+            let i = left;
+            let j = right;
+            this.swap(left, k);
+            if (this.value(right, axis) > pivot) this.swap(left, right);
+            while (i < j) {
+                this.swap(i, j);
+                i++;
+                j--;
+                while (this.value(i, axis) < pivot) i++;
+                while (this.value(j, axis) > pivot) j--;
+            }
+            if (this.value(left, axis) === pivot) {
+                this.swap(left, j);
+            } else {
+                j++;
+                this.swap(j, right);
+            }
+            if (j <= k) left = j + 1;
+            if (k <= j) right = j - 1;
+        }
+    }
+
+    /** Hand every point that could be among the nearest to (x, y) to `visit`, which returns the search radius so far. */
+    search(x: number, y: number, visit: (position: number) => number): void {
+        let radius = Infinity;
+        const step = (left: number, right: number, axis: number): void => {
+            if (right - left <= LEAF_SIZE) {
+                for (let i = left; i <= right; i++) radius = visit(i);
+                return;
+            }
+            const middle = (left + right) >> 1;
+            radius = visit(middle);
+            const offset = axis === 0 ? x - this.xs[middle] : y - this.ys[middle];
+            if (offset <= 0) {
+                step(left, middle - 1, 1 - axis);
+                if (offset * offset <= radius * radius) step(middle + 1, right, 1 - axis);
+            } else {
+                step(middle + 1, right, 1 - axis);
+                if (offset * offset <= radius * radius) step(left, middle - 1, 1 - axis);
+            }
+        };
+        step(0, this.ids.length - 1, 0);
+    }
+}
+
+/** The `k` nearest other points to every point, in metres. */
+export function nearestNeighbours(points: ProjectedPoints, k: number): Neighbours {
+    const { xs, ys } = points;
+    const n = xs.length;
+    const tree = new KDTree(points);
+
+    const indices = new Uint32Array(n * k);
+    const distances = new Float64Array(n * k);
+    // Best candidates so far for the current point, nearest first
+    const best: { index: number; distance: number }[] = [];
+
+    for (let i = 0; i < n; i++) {
+        best.length = 0;
+        tree.search(xs[i], ys[i], position => {
+            const j = tree.ids[position];
+            if (j !== i) {
+                const distance = Math.hypot(tree.xs[position] - xs[i], tree.ys[position] - ys[i]);
+                if (best.length < k || distance < best[k - 1].distance) {
+                    let at = best.length;
+                    while (at > 0 && best[at - 1].distance > distance) at--;
+                    best.splice(at, 0, { index: j, distance });
+                    if (best.length > k) best.pop();
+                }
+            }
+            return best.length === k ? best[k - 1].distance : Infinity;
+        });
+
+        best.forEach(({ index, distance }, rank) => {
+            indices[i * k + rank] = index;
+            distances[i * k + rank] = distance;
+        });
+    }
+
+    return { k, indices, distances };
+}
+
+/** Distance from each point to the furthest of its `k` nearest neighbours. */
+export function kDistances({ k, distances }: Neighbours): Float64Array {
+    const result = new Float64Array(distances.length / k);
+    for (let i = 0; i < result.length; i++) result[i] = distances[i * k + k - 1];
+    return result;
+}
+
+/**
+ * The usual spacing between neighbouring points: the median distance from each
+ * point to its nearest neighbour, in metres (0 when most points are stacked).
+ */
+export function medianSpacing(points: ProjectedPoints): number {
+    const sorted = nearestNeighbours(points, 1).distances.sort();
+    const middle = sorted.length >> 1;
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,136 @@
+import { type OutlierMethod } from "./schema";
+import { distanceMeters } from "./geodesy";
+import { kDistances, nearestNeighbours, projectPoints, type Neighbours } from "./neighbours";
+
+// Outlier detection for a group's [longitude, latitude] coordinates, run before
+// its polygon is built so one stray GPS fix can't stretch the hull across a
+// city. Distances are in metres on the ground: from the group's centre on the
+// sphere for the spread-based methods, and on a local flat projection for the
+// neighbour-based ones.
+
+export interface OutlierOptions {
+    method: OutlierMethod;
+    // Standard deviations (stddev, knn), IQRs past the upper quartile (iqr) or
+    // the local outlier factor (lof) beyond which a point is an outlier
+    threshold: number;
+}
+
+export const DEFAULT_OUTLIER_THRESHOLDS: Record<OutlierMethod, number> = {
+    none: 0,
+    stddev: 2,
+    iqr: 1.5,
+    lof: 2,
+    knn: 3,
+};
+
+// Neighbours the local-density and k-nearest-neighbour methods look at
+export const OUTLIER_NEIGHBOURS = 10;
+
+// However many points look like outliers, this many stay to build a polygon from
+const MIN_KEPT = 3;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Mean position on the sphere - the average of the unit vectors, which stays
+// right across the antimeridian and near the poles
+function sphericalCentroid(coordinates: [number, number][]): [number, number] {
+    let x = 0, y = 0, z = 0;
+    for (const [lng, lat] of coordinates) {
+        const cosLat = Math.cos(toRadians(lat));
+        x += cosLat * Math.cos(toRadians(lng));
+        y += cosLat * Math.sin(toRadians(lng));
+        z += Math.sin(toRadians(lat));
+    }
+    return [toDegrees(Math.atan2(y, x)), toDegrees(Math.atan2(z, Math.hypot(x, y)))];
+}
+
+function meanAndDeviation(values: ArrayLike<number>): { mean: number; deviation: number } {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[i];
+    const mean = sum / values.length;
+    let squares = 0;
+    for (let i = 0; i < values.length; i++) squares += (values[i] - mean) ** 2;
+    return { mean, deviation: Math.sqrt(squares / values.length) };
+}
+
+// Linear interpolation between the closest ranks
+function quantile(sorted: ArrayLike<number>, q: number): number {
+    const position = (sorted.length - 1) * q;
+    const below = Math.floor(position);
+    const above = Math.min(below + 1, sorted.length - 1);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+// Local outlier factor: how much sparser a point's neighbourhood is than its
+// neighbours' own neighbourhoods. Around 1 inside a cluster, larger outside.
+function localOutlierFactors(neighbours: Neighbours): Float64Array {
+    const { k, indices, distances } = neighbours;
+    const n = distances.length / k;
+    const kDistance = kDistances(neighbours);
+
+    const density = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+        let reach = 0;
+        for (let r = 0; r < k; r++) {
+            reach += Math.max(kDistance[indices[i * k + r]], distances[i * k + r]);
+        }
+        // Stacked duplicates would otherwise have infinite density - a
+        // millimetre is as close as any GPS fix gets
+        density[i] = 1 / Math.max(reach / k, 0.001);
+    }
+
+    const factors = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+        let sum = 0;
+        for (let r = 0; r < k; r++) sum += density[indices[i * k + r]];
+        factors[i] = sum / k / density[i];
+    }
+    return factors;
+}
+
+function distancesFromCentre(coordinates: [number, number][]): Float64Array {
+    const [lng0, lat0] = sphericalCentroid(coordinates);
+    return Float64Array.from(coordinates, ([lng, lat]) => distanceMeters(lng0, lat0, lng, lat));
+}
+
+/**
+ * Positions in `coordinates` of the points the method picks out as outliers,
+ * in ascending order. Groups too small to judge, and results that would leave
+ * fewer than three points, give no outliers.
+ */
+export function findOutliers(coordinates: [number, number][], { method, threshold }: OutlierOptions): number[] {
+    const n = coordinates.length;
+    if (method === 'none' || n <= MIN_KEPT) return [];
+
+    let scores: Float64Array;
+    let limit: number;
+
+    if (method === 'stddev') {
+        scores = distancesFromCentre(coordinates);
+        const { mean, deviation } = meanAndDeviation(scores);
+        limit = mean + threshold * deviation;
+    } else if (method === 'iqr') {
+        scores = distancesFromCentre(coordinates);
+        const sorted = Float64Array.from(scores).sort();
+        const q1 = quantile(sorted, 0.25);
+        const q3 = quantile(sorted, 0.75);
+        limit = q3 + threshold * (q3 - q1);
+    } else {
+        const neighbours = nearestNeighbours(projectPoints(coordinates), Math.min(OUTLIER_NEIGHBOURS, n - 1));
+        if (method === 'lof') {
+            scores = localOutlierFactors(neighbours);
+            limit = threshold;
+        } else {
+            scores = kDistances(neighbours);
+            const { mean, deviation } = meanAndDeviation(scores);
+            limit = mean + threshold * deviation;
+        }
+    }
+
+    const outliers: number[] = [];
+    for (let i = 0; i < n; i++) {
+        if (scores[i] > limit) outliers.push(i);
+    }
+    return n - outliers.length >= MIN_KEPT ? outliers : [];
+}
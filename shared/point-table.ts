@@ -0,0 +1,327 @@
+import { type CSVPoint } from './schema';
+
+// Columnar in-memory model for loaded points. Coordinates live in Float64Arrays
+// and every attribute column is dictionary-encoded (one small code per point
+// plus the distinct values), so millions of rows fit in memory and a table can
+// move between the workers and the page as Transferables instead of being
+// structured-cloned object by object.
+
+export interface AttributeColumn {
+    name: string;
+    // Distinct values in order of first appearance. Code 0 is reserved for
+    // "no value", so values[0] is always undefined.
+    values: unknown[];
+    codes: Uint32Array;
+    // Set on the column a clustering made, rather than one read from the file
+    clustered?: boolean;
+}
+
+export interface PointTable {
+    length: number;
+    // Numeric part of each point's id ("point-<n>", usually the source row)
+    ids: Uint32Array;
+    // Ids of any other form (a UUID, a GeoJSON feature id, a number past
+    // 2^32), kept as given - code 0 means the point's id is in `ids`
+    otherIds?: AttributeColumn;
+    longitude: Float64Array;
+    latitude: Float64Array;
+    columns: AttributeColumn[];
+}
+
+// Keys of a CSVPoint that are stored as arrays rather than attribute columns
+export const POINT_KEYS = ['id', 'longitude', 'latitude'];
+
+export function emptyPointTable(): PointTable {
+    return {
+        length: 0,
+        ids: new Uint32Array(0),
+        longitude: new Float64Array(0),
+        latitude: new Float64Array(0),
+        columns: [],
+    };
+}
+
+export function pointId(table: PointTable, index: number): string {
+    const code = table.otherIds?.codes[index];
+    return code ? String(table.otherIds!.values[code]) : `point-${table.ids[index]}`;
+}
+
+export function getValue(column: AttributeColumn, index: number): unknown {
+    return column.values[column.codes[index]];
+}
+
+export function findColumn(table: PointTable, name: string): AttributeColumn | undefined {
+    return table.columns.find(column => column.name === name);
+}
+
+/**
+ * The group id each distinct value of a column stands for, indexed by code -
+ * points with no value (or no such column) share the group 'undefined'.
+ */
+export function groupIds(column: AttributeColumn | undefined): string[] {
+    return column
+        ? column.values.map(value => String(value ?? 'undefined'))
+        : ['undefined'];
+}
+
+/**
+ * The number each distinct value of a column stands for, indexed by code (NaN
+ * for no value), or null when the column holds anything that isn't a number.
+ */
+export function columnNumbers(column: AttributeColumn): Float64Array | null {
+    const numbers = new Float64Array(column.values.length).fill(NaN);
+    let found = false;
+
+    for (let code = 1; code < column.values.length; code++) {
+        const value = column.values[code];
+        const text = typeof value === 'number' ? null : String(value ?? '').trim();
+        if (text === '') continue;
+
+        const number = text === null ? value as number : Number(text);
+        if (!Number.isFinite(number)) return null;
+        numbers[code] = number;
+        found = true;
+    }
+    return found ? numbers : null;
+}
+
+/** Materialise one point as a plain object, e.g. for a popup or a table row. */
+export function pointAt(table: PointTable, index: number): CSVPoint {
+    const point: CSVPoint = {
+        id: pointId(table, index),
+        longitude: table.longitude[index],
+        latitude: table.latitude[index],
+    };
+    for (const column of table.columns) {
+        point[column.name] = getValue(column, index);
+    }
+    return point;
+}
+
+/**
+ * The buffers to list as Transferables when posting a table. Only for tables
+ * that own their buffers (from build or clonePointTable) - a builder's view
+ * shares the builder's buffers, which transferring would detach.
+ */
+export function pointTableTransferables(table: PointTable): ArrayBuffer[] {
+    return [
+        table.ids.buffer,
+        table.longitude.buffer,
+        table.latitude.buffer,
+        ...(table.otherIds ? [table.otherIds.codes.buffer] : []),
+        ...table.columns.map(column => column.codes.buffer),
+    ] as ArrayBuffer[];
+}
+
+/**
+ * A trimmed copy with buffers of its own, for transferring a table the sender
+ * still needs - transferring detaches the original buffers.
+ */
+export function clonePointTable(table: PointTable): PointTable {
+    return {
+        length: table.length,
+        ids: table.ids.slice(0, table.length),
+        longitude: table.longitude.slice(0, table.length),
+        latitude: table.latitude.slice(0, table.length),
+        otherIds: table.otherIds && {
+            name: table.otherIds.name,
+            values: table.otherIds.values.slice(),
+            codes: table.otherIds.codes.slice(0, table.length),
+        },
+        columns: table.columns.map(column => ({
+            ...column,
+            values: column.values.slice(),
+            codes: column.codes.slice(0, table.length),
+        })),
+    };
+}
+
+function grow<T extends Uint32Array | Float64Array>(array: T, capacity: number): T {
+    const grown = new (array.constructor as { new(length: number): T })(capacity);
+    grown.set(array);
+    return grown;
+}
+
+interface ColumnBuilder {
+    name: string;
+    values: unknown[];
+    lookup: Map<unknown, number>;
+    codes: Uint32Array;
+}
+
+// Rows added before a column appeared keep code 0 - no value
+function newColumn(name: string, capacity: number): ColumnBuilder {
+    return {
+        name,
+        values: [undefined],
+        lookup: new Map([[undefined, 0]]),
+        codes: new Uint32Array(capacity),
+    };
+}
+
+/**
+ * Builds a PointTable a point (or a whole table) at a time, growing its
+ * arrays as needed. Workers build one per chunk; the page appends the chunks
+ * into one builder for the whole file.
+ */
+export class PointTableBuilder {
+    private size = 0;
+    private capacity: number;
+    private ids: Uint32Array;
+    private longitude: Float64Array;
+    private latitude: Float64Array;
+    private otherIds: ColumnBuilder | null = null;
+    private columns: ColumnBuilder[] = [];
+    private columnsByName = new Map<string, ColumnBuilder>();
+
+    constructor(capacity = 1024) {
+        this.capacity = Math.max(1, capacity);
+        this.ids = new Uint32Array(this.capacity);
+        this.longitude = new Float64Array(this.capacity);
+        this.latitude = new Float64Array(this.capacity);
+    }
+
+    get length(): number {
+        return this.size;
+    }
+
+    private reserve(count: number): void {
+        if (this.size + count <= this.capacity) return;
+
+        while (this.size + count > this.capacity) {
+            this.capacity *= 2;
+        }
+        this.ids = grow(this.ids, this.capacity);
+        this.longitude = grow(this.longitude, this.capacity);
+        this.latitude = grow(this.latitude, this.capacity);
+        if (this.otherIds) {
+            this.otherIds.codes = grow(this.otherIds.codes, this.capacity);
+        }
+        for (const column of this.columns) {
+            column.codes = grow(column.codes, this.capacity);
+        }
+    }
+
+    private column(name: string): ColumnBuilder {
+        let column = this.columnsByName.get(name);
+        if (!column) {
+            column = newColumn(name, this.capacity);
+            this.columns.push(column);
+            this.columnsByName.set(name, column);
+        }
+        return column;
+    }
+
+    // Only made once a point has an id that doesn't fit `ids`
+    private otherIdColumn(): ColumnBuilder {
+        return this.otherIds ??= newColumn('id', this.capacity);
+    }
+
+    private encode(column: ColumnBuilder, value: unknown): number {
+        let code = column.lookup.get(value);
+        if (code === undefined) {
+            code = column.values.length;
+            column.values.push(value);
+            column.lookup.set(value, code);
+        }
+        return code;
+    }
+
+    append(point: CSVPoint): void {
+        this.reserve(1);
+        const index = this.size;
+        const match = /^point-(0|[1-9]\d*)$/.exec(point.id);
+        const id = match ? Number(match[1]) : NaN;
+
+        if (id <= 0xffffffff) {
+            this.ids[index] = id;
+            if (this.otherIds) this.otherIds.codes[index] = 0;
+        } else {
+            const otherIds = this.otherIdColumn();
+            this.ids[index] = index;
+            otherIds.codes[index] = this.encode(otherIds, point.id);
+        }
+        this.longitude[index] = point.longitude;
+        this.latitude[index] = point.latitude;
+        for (const column of this.columns) {
+            column.codes[index] = 0;
+        }
+        for (const key of Object.keys(point)) {
+            if (POINT_KEYS.includes(key)) continue;
+            const column = this.column(key);
+            column.codes[index] = this.encode(column, point[key]);
+        }
+        this.size++;
+    }
+
+    /** Append every point of another table, re-encoding its attribute codes. */
+    appendTable(table: PointTable): void {
+        this.reserve(table.length);
+        const start = this.size;
+        const end = start + table.length;
+
+        this.ids.set(table.ids.subarray(0, table.length), start);
+        this.longitude.set(table.longitude.subarray(0, table.length), start);
+        this.latitude.set(table.latitude.subarray(0, table.length), start);
+        if (table.otherIds) {
+            this.appendCodes(this.otherIdColumn(), table.otherIds, start, table.length);
+        } else if (this.otherIds) {
+            this.otherIds.codes.fill(0, start, end);
+        }
+
+        const appended = new Set<ColumnBuilder>();
+        for (const source of table.columns) {
+            const column = this.column(source.name);
+            this.appendCodes(column, source, start, table.length);
+            appended.add(column);
+        }
+        for (const column of this.columns) {
+            if (!appended.has(column)) {
+                column.codes.fill(0, start, end);
+            }
+        }
+        this.size = end;
+    }
+
+    private appendCodes(column: ColumnBuilder, source: AttributeColumn, start: number, count: number): void {
+        const remap = Uint32Array.from(source.values, value => this.encode(column, value));
+        for (let i = 0; i < count; i++) {
+            column.codes[start + i] = remap[source.codes[i]];
+        }
+    }
+
+    /**
+     * The points so far, as views of the builder's arrays - nothing is copied,
+     * and later appends don't change a view already handed out (dictionaries
+     * only ever gain values, which the view's codes never refer to).
+     */
+    view(): PointTable {
+        return {
+            length: this.size,
+            ids: this.ids.subarray(0, this.size),
+            longitude: this.longitude.subarray(0, this.size),
+            latitude: this.latitude.subarray(0, this.size),
+            otherIds: this.otherIds ? {
+                name: this.otherIds.name,
+                values: this.otherIds.values,
+                codes: this.otherIds.codes.subarray(0, this.size),
+            } : undefined,
+            columns: this.columns.map(column => ({
+                name: column.name,
+                values: column.values,
+                codes: column.codes.subarray(0, this.size),
+            })),
+        };
+    }
+
+    /** A trimmed table with buffers of its own, ready to be transferred. */
+    build(): PointTable {
+        return clonePointTable(this.view());
+    }
+}
+
+export function pointTableFromPoints(points: CSVPoint[]): PointTable {
+    const builder = new PointTableBuilder(points.length);
+    points.forEach(point => builder.append(point));
+    return builder.view();
+}
@@ -0,0 +1,369 @@
+import concaveman from "concaveman";
+
+import { type Polygon, type PolygonMethod } from "./schema";
+import { findColumn, getValue, groupIds, type PointTable } from "./point-table";
+import { alphaShape, bufferUnion, convexHull, hexbinFootprint } from "./hulls";
+import { findOutliers, type OutlierOptions } from "./outliers";
+import { separateAreas } from "./clustering";
+import { cutHoles } from "./holes";
+import { projectPoints } from "./neighbours";
+
+// Polygon generation pipeline shared by the browser worker and the server, so
+// both produce exactly the same polygons for the same inputs.
+
+export interface GeneratePolygonsOptions {
+    concavity: number;
+    groupField: string;
+    method?: PolygonMethod;
+    padding?: number;
+    // Alpha radius, buffer distance or hexagon size in metres
+    radius?: number;
+    // Points to leave out of each group's polygon - none by default
+    outliers?: OutlierOptions;
+    // Points with no group value - the noise a clustering leaves - get no
+    // polygon and are reported with the outliers instead
+    ungroupedAsOutliers?: boolean;
+    // Gap in metres that splits a group into separate parts, each with its
+    // own hull - unset keeps each group in one piece. Points in areas too
+    // small for a hull are reported with the outliers. The radius methods
+    // split wherever their shapes don't touch, so they don't use it.
+    splitDistance?: number;
+    // Empty areas inside a hull wider than this many times the usual spacing
+    // between neighbouring points become holes - unset leaves hulls solid.
+    // The radius methods leave holes of their own wherever the radius falls
+    // short, so they don't use it either.
+    holeSpacing?: number;
+}
+
+export const DEFAULT_RADIUS_METERS = 250;
+
+// Methods whose shape is set by the radius rather than the concavity
+export const RADIUS_METHODS: PolygonMethod[] = ['alpha', 'buffer', 'hexbin'];
+
+// A buffer or a hexagon can be drawn around a single point; hulls need three
+function minimumGroupSize(method: PolygonMethod): number {
+    return method === 'buffer' || method === 'hexbin' ? 1 : 3;
+}
+
+export interface GenerationProgress {
+    groupsProcessed: number;
+    totalGroups: number;
+    currentGroup: string;
+}
+
+// Douglas-Peucker algorithm for line simplification
+export function douglasPeucker(points: [number, number][], tolerance: number): [number, number][] {
+    if (points.length <= 2) return points;
+
+    let maxDistance = 0;
+    let maxIndex = 0;
+    const firstPoint = points[0];
+    const lastPoint = points[points.length - 1];
+
+    for (let i = 1; i < points.length - 1; i++) {
+        const distance = perpendicularDistance(points[i], firstPoint, lastPoint);
+        if (distance > maxDistance) {
+            maxDistance = distance;
+            maxIndex = i;
+        }
+    }
+
+    if (maxDistance > tolerance) {
+        const leftPart = douglasPeucker(points.slice(0, maxIndex + 1), tolerance);
+        const rightPart = douglasPeucker(points.slice(maxIndex), tolerance);
+        return leftPart.slice(0, -1).concat(rightPart);
+    } else {
+        return [firstPoint, lastPoint];
+    }
+}
+
+function perpendicularDistance(point: [number, number], lineStart: [number, number], lineEnd: [number, number]): number {
+    const [x, y] = point;
+    const [x1, y1] = lineStart;
+    const [x2, y2] = lineEnd;
+
+    const A = x - x1;
+    const B = y - y1;
+    const C = x2 - x1;
+    const D = y2 - y1;
+
+    const dot = A * C + B * D;
+    const lenSq = C * C + D * D;
+
+    if (lenSq === 0) {
+        return Math.sqrt(A * A + B * B);
+    }
+
+    const param = dot / lenSq;
+    let xx, yy;
+
+    if (param < 0) {
+        xx = x1;
+        yy = y1;
+    } else if (param > 1) {
+        xx = x2;
+        yy = y2;
+    } else {
+        xx = x1 + param * C;
+        yy = y1 + param * D;
+    }
+
+    const dx = x - xx;
+    const dy = y - yy;
+    return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Ensure polygon coordinates are closed (first == last)
+ */
+export function ensureClosed(coords: [number, number][]): [number, number][] {
+    if (coords.length < 3) return coords;
+    const first = coords[0];
+    const last = coords[coords.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+        return [...coords, [...first] as [number, number]];
+    }
+    return coords;
+}
+
+/**
+ * Group points by the value of `groupField`, as lists of row indices into the
+ * table. Points without a value all land in the `'undefined'` group.
+ */
+export function groupPoints(table: PointTable, groupField: string): Map<string, number[]> {
+    const groupedPoints = new Map<string, number[]>();
+    const column = findColumn(table, groupField);
+
+    // Work out each distinct value's key once rather than once per point
+    const keys = groupIds(column);
+
+    for (let i = 0; i < table.length; i++) {
+        const key = keys[column ? column.codes[i] : 0];
+        const existing = groupedPoints.get(key);
+        if (existing) {
+            existing.push(i);
+        } else {
+            groupedPoints.set(key, [i]);
+        }
+    }
+
+    return groupedPoints;
+}
+
+/**
+ * Collect the attributes of a group's points into polygon properties.
+ * Attributes that vary keep the first value plus a unique count.
+ */
+function aggregateProperties(groupId: string, table: PointTable, indices: number[], method: PolygonMethod, radius: number, counts: Record<string, number>): Record<string, any> {
+    const aggregatedProperties: Record<string, any> = {
+        groupId,
+        pointCount: indices.length,
+        method: method
+    };
+    if (RADIUS_METHODS.includes(method)) {
+        aggregatedProperties.radiusMeters = radius;
+    }
+    Object.assign(aggregatedProperties, counts);
+
+    table.columns.forEach(column => {
+        const uniqueCodes = new Set(indices.map(i => column.codes[i]));
+        aggregatedProperties[column.name] = getValue(column, indices[0]);
+        if (uniqueCodes.size > 1) {
+            aggregatedProperties[`${column.name}_unique_count`] = uniqueCodes.size;
+        }
+    });
+
+    return aggregatedProperties;
+}
+
+// Planar shoelace area in square degrees - only used to compare parts
+function ringArea(ring: [number, number][]): number {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+    }
+    return area / 2;
+}
+
+type Ring = [number, number][];
+
+/**
+ * Build one hull ring around the coordinates, or null if they can't form a
+ * polygon.
+ */
+function hullRing(coordinates: Ring, concavity: number, method: PolygonMethod, padding: number): Ring | null {
+    if (method === 'convex') {
+        const [part] = convexHull(coordinates);
+        return part ? part[0] as Ring : null;
+    }
+
+    const hull = concaveman(coordinates, concavity, 0) as Ring;
+
+    if (hull.length < 3) {
+        return null;
+    }
+
+    let finalCoordinates = ensureClosed(hull);
+
+    if (method === 'simplified') {
+        const tolerance = padding > 0 ? padding * 0.0001 : 0.00005;
+        finalCoordinates = ensureClosed(douglasPeucker(finalCoordinates, tolerance));
+    }
+
+    return finalCoordinates;
+}
+
+// Positions of the coordinates in each area that gaps wider than the split
+// distance separate
+function splitIntoAreas(coordinates: Ring, splitDistance: number): number[][] {
+    const areas: number[][] = [];
+    separateAreas(projectPoints(coordinates), splitDistance).forEach((area, position) => {
+        (areas[area] ??= []).push(position);
+    });
+    return areas;
+}
+
+type ShapeOptions = Required<Pick<GeneratePolygonsOptions, 'concavity' | 'method' | 'padding' | 'radius'>>
+    & Pick<GeneratePolygonsOptions, 'splitDistance' | 'holeSpacing'>;
+
+/**
+ * Build the parts of a group's polygon, each as its rings (outer ring first,
+ * then any holes), largest first - empty if the group can't form a polygon -
+ * plus the row indices of the points split off in areas too small for a hull.
+ */
+function buildParts(table: PointTable, indices: number[], { concavity, method, padding, radius, splitDistance, holeSpacing }: ShapeOptions): { parts: Ring[][]; leftOut: number[] } {
+    const coordinates: Ring = indices.map(i => [table.longitude[i], table.latitude[i]]);
+    let parts: Ring[][];
+    const leftOut: number[] = [];
+
+    if (RADIUS_METHODS.includes(method)) {
+        const footprint = method === 'alpha' ? alphaShape(coordinates, radius)
+            : method === 'buffer' ? bufferUnion(coordinates, radius)
+            : hexbinFootprint(coordinates, radius);
+        parts = footprint.filter(([outer]) => outer.length >= 4) as Ring[][];
+    } else {
+        let areas = [coordinates];
+        if (splitDistance) {
+            const split = splitIntoAreas(coordinates, splitDistance);
+            for (const area of split) {
+                if (area.length < 3) leftOut.push(...area.map(position => indices[position]));
+            }
+            areas = split
+                .filter(area => area.length >= 3)
+                .map(area => area.map(position => coordinates[position]));
+        }
+        parts = [];
+        for (const area of areas) {
+            const ring = hullRing(area, concavity, method, padding);
+            if (!ring) continue;
+            if (holeSpacing) parts.push(...cutHoles(area, ring, holeSpacing) as Ring[][]);
+            else parts.push([ring]);
+        }
+    }
+
+    const sizes = new Map(parts.map(part => [part, Math.abs(ringArea(part[0]))]));
+    return { parts: parts.sort((a, b) => sizes.get(b)! - sizes.get(a)!), leftOut };
+}
+
+// Row indices of the group's points that aren't outliers, plus those that are
+function splitOutliers(table: PointTable, indices: number[], outliers: OutlierOptions): { kept: number[]; removed: number[] } {
+    const coordinates: [number, number][] = indices.map(i => [table.longitude[i], table.latitude[i]]);
+    const flagged = findOutliers(coordinates, outliers);
+    if (flagged.length === 0) return { kept: indices, removed: [] };
+
+    const isOutlier = new Uint8Array(indices.length);
+    flagged.forEach(position => { isOutlier[position] = 1; });
+    return {
+        kept: indices.filter((_, position) => !isOutlier[position]),
+        removed: flagged.map(position => indices[position]),
+    };
+}
+
+/**
+ * Group points and generate one concave hull polygon per group with at least
+ * three points - a multi-part one when the group covers separate areas.
+ * `onProgress` is called every 10 groups, and `onOutliers` with the row
+ * indices of each group's points left out as outliers.
+ */
+export function generatePolygons(
+    table: PointTable,
+    { concavity, groupField, method = 'concave', padding = 0.05, radius = DEFAULT_RADIUS_METERS, outliers, ungroupedAsOutliers = false, splitDistance, holeSpacing }: GeneratePolygonsOptions,
+    onProgress?: (progress: GenerationProgress) => void,
+    onOutliers?: (groupId: string, indices: number[]) => void,
+): Polygon[] {
+    const groupedPoints = groupPoints(table, groupField);
+
+    const generatedPolygons: Polygon[] = [];
+    const totalGroups = groupedPoints.size;
+    let processedGroups = 0;
+
+    groupedPoints.forEach((allGroupPoints, groupId) => {
+        if (ungroupedAsOutliers && groupId === 'undefined') {
+            onOutliers?.(groupId, allGroupPoints);
+            processedGroups++;
+            return;
+        }
+
+        let groupPoints = allGroupPoints;
+        // Only reported for the steps that are switched on
+        const counts: Record<string, number> = {};
+        if (outliers && outliers.method !== 'none') {
+            const { kept, removed } = splitOutliers(table, allGroupPoints, outliers);
+            groupPoints = kept;
+            counts.outlierCount = removed.length;
+            if (removed.length > 0) onOutliers?.(groupId, removed);
+        }
+
+        if (groupPoints.length < minimumGroupSize(method)) {
+            processedGroups++;
+            return;
+        }
+
+        try {
+            const { parts, leftOut } = buildParts(table, groupPoints, { concavity, method, padding, radius, splitDistance, holeSpacing });
+            // Points in areas too small for a hull count as outliers
+            if (leftOut.length > 0) {
+                onOutliers?.(groupId, leftOut);
+                const isLeftOut = new Set(leftOut);
+                groupPoints = groupPoints.filter(index => !isLeftOut.has(index));
+                counts.outlierCount = (counts.outlierCount ?? 0) + leftOut.length;
+            }
+            if (parts.length === 0) {
+                processedGroups++;
+                return;
+            }
+
+            const usesRadius = RADIUS_METHODS.includes(method);
+            if (splitDistance || usesRadius) {
+                counts.partCount = parts.length;
+            }
+            if (holeSpacing || usesRadius) {
+                counts.holeCount = parts.reduce((sum, rings) => sum + rings.length - 1, 0);
+            }
+            generatedPolygons.push({
+                id: `polygon-${groupId}`,
+                groupId: groupId,
+                groupField: groupField,
+                coordinates: parts[0][0],
+                ...((parts.length > 1 || parts[0].length > 1) && { parts }),
+                properties: aggregateProperties(groupId, table, groupPoints, method, radius, counts),
+            });
+
+            processedGroups++;
+
+            if (processedGroups % 10 === 0) {
+                onProgress?.({
+                    groupsProcessed: processedGroups,
+                    totalGroups,
+                    currentGroup: groupId,
+                });
+            }
+
+        } catch (err) {
+            console.error(`Failed to generate polygon for group ${groupId}:`, err);
+            processedGroups++;
+        }
+    });
+
+    return generatedPolygons;
+}
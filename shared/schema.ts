@@ -9,24 +9,127 @@ export const csvPointSchema = z.object({
 
 export type CSVPoint = z.infer<typeof csvPointSchema>;
 
+// Polygon generation methods - "alpha", "buffer" and "hexbin" take a radius in metres
+export const polygonMethodSchema = z.enum(["concave", "simplified", "convex", "alpha", "buffer", "hexbin"]);
+
+export type PolygonMethod = z.infer<typeof polygonMethodSchema>;
+
+// How stray points are picked out of a group before its polygon is built
+export const outlierMethodSchema = z.enum(["none", "stddev", "iqr", "lof", "knn"]);
+
+export type OutlierMethod = z.infer<typeof outlierMethodSchema>;
+
+// Spatial clustering that groups unlabelled points
+export const clusterMethodSchema = z.enum(["dbscan", "hdbscan"]);
+
+export type ClusterMethod = z.infer<typeof clusterMethodSchema>;
+
+// A ring of [longitude, latitude] coordinates
+const ringSchema = z.array(z.tuple([z.number(), z.number()]));
+
 // Polygon Schema
 export const polygonSchema = z.object({
   id: z.string(),
   groupId: z.string(), // The group value (from whichever column user selected)
   groupField: z.string().optional(), // The column name used for grouping
-  coordinates: z.array(z.tuple([z.number(), z.number()])),
+  coordinates: ringSchema, // Outer ring - of the largest part when there are several
+  // Every part as its rings - outer ring first, then its holes - when the
+  // group covers separate areas or has holes
+  parts: z.array(z.array(ringSchema)).optional(),
   properties: z.record(z.unknown()).optional(),
 });
 
 export type Polygon = z.infer<typeof polygonSchema>;
 
-// GeoJSON Feature Schema for export
+// Dataset Schemas - named point sets and polygon sets stored on the server
+export const insertPointSetSchema = z.object({
+  name: z.string().trim().min(1, "Dataset name is required"),
+  points: z.array(csvPointSchema).min(1, "At least one point is required"),
+});
+
+export type InsertPointSet = z.infer<typeof insertPointSetSchema>;
+
+export const insertPolygonSetSchema = z.object({
+  name: z.string().trim().min(1, "Dataset name is required"),
+  pointSetId: z.string().optional(), // The point set the polygons were generated from
+  polygons: z.array(polygonSchema).min(1, "At least one polygon is required"),
+});
+
+export type InsertPolygonSet = z.infer<typeof insertPolygonSetSchema>;
+
+// Request body for server-side polygon generation - either inline points or
+// the id of a stored point set
+export const generatePolygonsRequestSchema = z.object({
+  points: z.array(csvPointSchema).min(1, "At least one point is required").optional(),
+  datasetId: z.string().optional(),
+  groupField: z.string().min(1, "groupField is required"),
+  concavity: z.number().positive().default(2),
+  method: polygonMethodSchema.default("concave"),
+  padding: z.number().min(0).default(0.05),
+  radius: z.number().positive().default(250),
+  outlierMethod: outlierMethodSchema.default("none"),
+  // Defaults to the method's usual cut-off
+  outlierThreshold: z.number().positive().optional(),
+  // Metres between points that splits a group into separate parts - unset keeps each group in one piece
+  splitDistance: z.number().positive().optional(),
+  // Times the usual point spacing an empty area inside a hull must span to become a hole - unset leaves hulls solid
+  holeSpacing: z.number().positive().optional(),
+}).refine(body => (body.points === undefined) !== (body.datasetId === undefined), {
+  message: "Provide either points or datasetId, but not both",
+});
+
+export type GeneratePolygonsRequest = z.infer<typeof generatePolygonsRequestSchema>;
+
+// Summary returned when listing datasets (without the heavy point/polygon arrays)
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  kind: "points" | "polygons";
+  count: number;
+  createdAt: string;
+  pointSetId?: string;
+}
+
+export interface PointSet extends DatasetSummary {
+  kind: "points";
+  points: CSVPoint[];
+}
+
+export interface PolygonSet extends DatasetSummary {
+  kind: "polygons";
+  polygons: Polygon[];
+}
+
+// A local MBTiles/PMTiles archive the server serves as a basemap
+export interface TileSourceSummary {
+  id: string;
+  name: string;
+  format: "png" | "jpg" | "webp";
+  minZoom: number;
+  maxZoom: number;
+  // [west, south, east, north] in degrees, when the archive records them
+  bounds?: [number, number, number, number];
+  attribution?: string;
+  // Leaflet URL template for the tiles
+  url: string;
+}
+
+// A closed GeoJSON ring - at least three corners, with the first repeated at the end
+const linearRingSchema = ringSchema.min(4);
+
+// GeoJSON Feature Schema for export - a polygon's rings are its outer ring, then its holes
 export const geoJSONFeatureSchema = z.object({
   type: z.literal("Feature"),
-  geometry: z.object({
-    type: z.literal("Polygon"),
-    coordinates: z.array(z.array(z.tuple([z.number(), z.number()]))),
-  }),
+  geometry: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("Polygon"),
+      coordinates: z.array(linearRingSchema).min(1),
+    }),
+    z.object({
+      type: z.literal("MultiPolygon"),
+      coordinates: z.array(z.array(linearRingSchema).min(1)),
+    }),
+  ]),
   properties: z.record(z.unknown()),
 });
 